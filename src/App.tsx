@@ -10,6 +10,7 @@ import NotFound from "./pages/NotFound";
 import Auth from "./pages/Auth";
 import OrthodonticAnalyzer from "./pages/OrthodonticAnalyzer";
 import OrthodonticAnalytics from "./pages/OrthodonticAnalytics";
+import PromptTemplates from "./pages/PromptTemplates";
 import Testimonials from "./pages/Testimonials";
 import FAQ from "./pages/FAQ";
 import Contact from "./pages/Contact";
@@ -29,6 +30,7 @@ const App = () => (
           <Route path="/" element={<OrthodonticAnalyzer />} />
           <Route path="/auth" element={<Auth />} />
           <Route path="/ortho-internal-stats" element={<OrthodonticAnalytics />} />
+          <Route path="/ortho-internal-prompts" element={<PromptTemplates />} />
           <Route path="/testimonials" element={<Testimonials />} />
           <Route path="/faq" element={<FAQ />} />
           <Route path="/contact" element={<Contact />} />
@@ -0,0 +1,242 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Camera, Check, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { GUIDED_CAPTURE_STEPS, IMAGE_VIEW_TYPE_CONFIG, ImageViewType } from "@/config/imageViewTypes";
+
+interface CameraCaptureProps {
+  open: boolean;
+  // Resolves to whether the capture joined the case; a rejected capture keeps the current step
+  onCapture: (file: File, viewType: ImageViewType) => Promise<boolean>;
+  onClose: () => void;
+}
+
+// Outlines are drawn in a 100×75 frame (100×133 for the portrait profile view)
+const OUTLINES: Partial<Record<ImageViewType, React.ReactNode>> = {
+  intraoral_frontal: (
+    <>
+      <ellipse cx="50" cy="37.5" rx="38" ry="20" />
+      <path d="M 14 37.5 Q 50 44 86 37.5" />
+      <line x1="50" y1="17.5" x2="50" y2="57.5" strokeDasharray="2 2" />
+    </>
+  ),
+  intraoral_lateral_right: (
+    <>
+      <ellipse cx="50" cy="37.5" rx="40" ry="18" />
+      <path d="M 10 37.5 L 90 37.5" />
+      <line x1="62" y1="21" x2="62" y2="54" strokeDasharray="2 2" />
+    </>
+  ),
+  intraoral_lateral_left: (
+    <>
+      <ellipse cx="50" cy="37.5" rx="40" ry="18" />
+      <path d="M 10 37.5 L 90 37.5" />
+      <line x1="38" y1="21" x2="38" y2="54" strokeDasharray="2 2" />
+    </>
+  ),
+  intraoral_occlusal_upper: (
+    <>
+      <path d="M 22 68 Q 18 8 50 8 Q 82 8 78 68" />
+      <path d="M 36 68 Q 34 24 50 24 Q 66 24 64 68" strokeDasharray="2 2" />
+    </>
+  ),
+  intraoral_occlusal_lower: (
+    <>
+      <path d="M 22 7 Q 18 67 50 67 Q 82 67 78 7" />
+      <path d="M 36 7 Q 34 51 50 51 Q 66 51 64 7" strokeDasharray="2 2" />
+    </>
+  ),
+  extraoral_profile: (
+    <>
+      <path d="M 40 12 Q 70 10 72 40 Q 73 52 80 60 Q 74 64 74 70 Q 78 76 73 80 Q 76 86 70 90 Q 72 100 62 104 Q 52 106 48 118" />
+      <line x1="20" y1="52" x2="80" y2="52" strokeDasharray="2 2" />
+    </>
+  ),
+};
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ open, onCapture, onClose }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [capturedViews, setCapturedViews] = useState<ImageViewType[]>([]);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fallbackInputRef = useRef<HTMLInputElement>(null);
+
+  const step = GUIDED_CAPTURE_STEPS[stepIndex];
+  const isPortrait = step.viewType === "extraoral_profile";
+
+  useEffect(() => {
+    if (open) {
+      setStepIndex(0);
+      setCapturedViews([]);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    let stream: MediaStream | null = null;
+    let isCurrent = true;
+    setCameraError(null);
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError("Camera access isn't available in this browser");
+      return;
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: { facingMode: { ideal: "environment" }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+        audio: false,
+      })
+      .then((mediaStream) => {
+        if (!isCurrent) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) videoRef.current.srcObject = mediaStream;
+      })
+      .catch((error) => {
+        console.error("Error opening camera:", error);
+        if (isCurrent) setCameraError("The camera couldn't be opened. Check the browser's camera permission.");
+      });
+
+    return () => {
+      isCurrent = false;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open]);
+
+  const saveCapture = async (file: File) => {
+    setIsSaving(true);
+    try {
+      const isAdded = await onCapture(file, step.viewType);
+      if (!isAdded) return;
+      setCapturedViews((prev) => [...prev, step.viewType]);
+      if (stepIndex < GUIDED_CAPTURE_STEPS.length - 1) {
+        setStepIndex(stepIndex + 1);
+      } else {
+        onClose();
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const captureFrame = async () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return;
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext("2d");
+    if (!context) return;
+    context.drawImage(video, 0, 0);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.92));
+    if (!blob) return;
+    await saveCapture(new File([blob], `${step.viewType}-${Date.now()}.jpg`, { type: "image/jpeg" }));
+  };
+
+  // Without live camera access the native camera picker still gets the tag
+  const handleFallbackCapture = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) await saveCapture(file);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !isSaving && onClose()}>
+      <DialogContent className="max-w-[100vw] w-[100vw] h-[100dvh] p-3 flex flex-col gap-3 sm:rounded-none">
+        <div className="pr-8">
+          <DialogTitle className="text-base">
+            {stepIndex + 1}/{GUIDED_CAPTURE_STEPS.length} — {IMAGE_VIEW_TYPE_CONFIG[step.viewType].label}
+          </DialogTitle>
+          <DialogDescription className="text-xs">{step.instruction}</DialogDescription>
+        </div>
+
+        <div className="relative flex-1 min-h-0 overflow-hidden rounded-lg bg-black flex items-center justify-center">
+          {cameraError ? (
+            <div className="p-6 text-center text-sm text-white space-y-4">
+              <p>{cameraError}</p>
+              <Button variant="secondary" onClick={() => fallbackInputRef.current?.click()} disabled={isSaving}>
+                <Camera className="mr-2 h-4 w-4" />
+                Take photo
+              </Button>
+              <input
+                ref={fallbackInputRef}
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={handleFallbackCapture}
+              />
+            </div>
+          ) : (
+            <>
+              <video ref={videoRef} autoPlay playsInline muted className="h-full w-full object-contain" />
+              <svg
+                viewBox={isPortrait ? "0 0 100 133" : "0 0 100 75"}
+                className="absolute inset-0 h-full w-full pointer-events-none"
+                fill="none"
+                stroke="white"
+                strokeWidth="0.8"
+                strokeOpacity="0.85"
+                preserveAspectRatio="xMidYMid meet"
+              >
+                {OUTLINES[step.viewType]}
+              </svg>
+            </>
+          )}
+          {isSaving && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+              <Loader2 className="h-8 w-8 animate-spin text-white" />
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-center gap-1.5">
+          {GUIDED_CAPTURE_STEPS.map((captureStep, index) => (
+            <button
+              key={captureStep.viewType}
+              type="button"
+              onClick={() => setStepIndex(index)}
+              disabled={isSaving}
+              className={`flex h-6 w-6 items-center justify-center rounded-full text-[10px] ${
+                index === stepIndex ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
+              }`}
+              aria-label={IMAGE_VIEW_TYPE_CONFIG[captureStep.viewType].label}
+            >
+              {capturedViews.includes(captureStep.viewType) ? <Check className="h-3 w-3" /> : index + 1}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            variant="ghost"
+            onClick={() => setStepIndex(stepIndex - 1)}
+            disabled={stepIndex === 0 || isSaving}
+          >
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Back
+          </Button>
+          {!cameraError && (
+            <Button size="lg" className="rounded-full h-14 w-14 p-0" onClick={captureFrame} disabled={isSaving} aria-label="Capture">
+              <Camera className="h-6 w-6" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            onClick={() => (stepIndex < GUIDED_CAPTURE_STEPS.length - 1 ? setStepIndex(stepIndex + 1) : onClose())}
+            disabled={isSaving}
+          >
+            {stepIndex < GUIDED_CAPTURE_STEPS.length - 1 ? "Skip" : "Done"}
+            <ChevronRight className="ml-1 h-4 w-4" />
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,221 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, ChevronLeft, ChevronRight, Copy, Crop, EyeOff, History, Maximize2, ShieldCheck, Sparkles, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CaseImage } from "@/hooks/orthodontic-analyzer/useCaseImages";
+import { IMAGE_VIEW_TYPES, IMAGE_VIEW_TYPE_CONFIG, ImageViewType, isRadiographView } from "@/config/imageViewTypes";
+import { IMAGE_CATEGORY_LABELS } from "@/utils/imageClassifier";
+import { formatFileSize } from "@/utils/imagePreprocessing";
+import { loadRedactionLayout } from "@/utils/imageEditing";
+
+
+interface CaseImageGridProps {
+  images: CaseImage[];
+  onRemove: (index: number) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  onViewTypeChange: (id: string, viewType: ImageViewType) => void;
+  onView: (index: number) => void;
+  onEdit: (id: string) => void;
+  onRedact: (id: string) => void;
+  onApplySavedRedaction: (id: string) => void;
+  onOverrideQuality: (id: string) => void;
+  disabled?: boolean;
+}
+
+const CaseImageGrid: React.FC<CaseImageGridProps> = ({
+  images,
+  onRemove,
+  onMove,
+  onViewTypeChange,
+  onView,
+  onEdit,
+  onRedact,
+  onApplySavedRedaction,
+  onOverrideQuality,
+  disabled = false,
+}) => {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+      {images.map((image, index) => (
+        <div key={image.id} className="rounded-lg border border-border bg-muted overflow-hidden">
+          <div className="relative aspect-[4/3]">
+            <button
+              type="button"
+              onClick={() => onView(index)}
+              className="w-full h-full cursor-zoom-in"
+              aria-label={`View image ${index + 1} full screen`}
+            >
+              <img
+                src={image.src}
+                alt={`Case image ${index + 1}`}
+                className="w-full h-full object-contain"
+              />
+            </button>
+            <span className="absolute top-1.5 left-1.5 rounded-full bg-background/90 px-2 py-0.5 text-xs font-medium">
+              {index + 1}
+            </span>
+            <span
+              className="absolute bottom-1.5 right-1.5 rounded bg-background/90 px-1.5 py-0.5 text-[10px] text-muted-foreground"
+              title="Uploaded size → size sent for analysis"
+            >
+              {formatFileSize(image.originalSize)} → {formatFileSize(image.file.size)}
+            </span>
+            <button
+              onClick={() => onRemove(index)}
+              disabled={disabled}
+              className="absolute top-1.5 right-1.5 bg-destructive text-destructive-foreground rounded-full p-1 hover:bg-destructive/90 transition-colors disabled:opacity-50"
+              aria-label={`Remove image ${index + 1}`}
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <div className="flex items-center justify-between gap-1 px-1.5 py-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => onMove(index, index - 1)}
+              disabled={disabled || index === 0}
+              aria-label={`Move image ${index + 1} earlier`}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="truncate text-xs text-muted-foreground" title={image.name}>
+              {image.name}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => onMove(index, index + 1)}
+              disabled={disabled || index === images.length - 1}
+              aria-label={`Move image ${index + 1} later`}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="px-1.5 pb-1.5">
+            <Select
+              value={image.viewType}
+              onValueChange={(value) => onViewTypeChange(image.id, value as ImageViewType)}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-8 text-xs" aria-label={`View type for image ${index + 1}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IMAGE_VIEW_TYPES.map((viewType) => (
+                  <SelectItem key={viewType} value={viewType} className="text-xs">
+                    {IMAGE_VIEW_TYPE_CONFIG[viewType].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="mt-1.5 flex gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 px-2"
+                onClick={() => onView(index)}
+                title="View full screen"
+                aria-label={`View image ${index + 1} full screen`}
+              >
+                <Maximize2 className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 px-2"
+                onClick={() => onEdit(image.id)}
+                disabled={disabled}
+                title="Crop, rotate or flip"
+                aria-label={`Edit image ${index + 1}`}
+              >
+                <Crop className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 flex-1 px-2 text-xs"
+                onClick={() => onRedact(image.id)}
+                disabled={disabled}
+              >
+                <EyeOff className="mr-1 h-3.5 w-3.5" />
+                {image.edits.redactions.length > 0 ? `Redacted (${image.edits.redactions.length})` : "Redact"}
+              </Button>
+              {image.edits.redactions.length === 0 && loadRedactionLayout(image.width, image.height) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => onApplySavedRedaction(image.id)}
+                  disabled={disabled}
+                  title="Apply the redaction layout last used for images of this size"
+                  aria-label={`Apply saved redaction to image ${index + 1}`}
+                >
+                  <History className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+            {image.classification && (
+              <p className="mt-1 flex items-center gap-1 text-[11px] text-muted-foreground">
+                <Sparkles className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate">
+                  {image.viewType === image.classification.suggestedViewType ? "Suggested: " : "Detected: "}
+                  {IMAGE_CATEGORY_LABELS[image.classification.category]}
+                </span>
+              </p>
+            )}
+            {image.duplicateOfId && images.some((other) => other.id === image.duplicateOfId) && (
+              <p className="mt-1 flex items-center gap-1 text-[11px] text-amber-600">
+                <Copy className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate">
+                  Looks like a duplicate of image {images.findIndex((other) => other.id === image.duplicateOfId) + 1}
+                </span>
+              </p>
+            )}
+            {image.removedMetadata.length > 0 && (
+              <p
+                className="mt-1 flex items-center gap-1 text-[11px] text-green-600"
+                title={`Removed: ${image.removedMetadata.join(", ")}`}
+              >
+                <ShieldCheck className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate">Metadata removed: {image.removedMetadata.join(", ")}</span>
+              </p>
+            )}
+            {image.quality?.issues.map((issue) => (
+              <p
+                key={issue.code}
+                className={`mt-1 flex items-start gap-1 text-[11px] ${
+                  issue.severity === "fail" && !image.qualityOverride ? "text-destructive" : "text-amber-600"
+                }`}
+              >
+                <AlertTriangle className="h-3 w-3 flex-shrink-0 mt-0.5" />
+                <span>{issue.message}</span>
+              </p>
+            ))}
+            {image.quality && !image.quality.passed && !image.qualityOverride && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-1 h-7 w-full px-2 text-xs"
+                onClick={() => onOverrideQuality(image.id)}
+                disabled={disabled}
+              >
+                Use this image anyway
+              </Button>
+            )}
+            {image.classification?.category === "clinical_photo" && isRadiographView(image.viewType) && (
+              <p className="mt-1 flex items-center gap-1 text-[11px] text-amber-600">
+                <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                Color photo tagged as X-ray
+              </p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CaseImageGrid;
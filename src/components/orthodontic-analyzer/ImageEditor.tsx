@@ -0,0 +1,255 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Crop, FlipHorizontal, Loader2, RotateCcw, RotateCw } from "lucide-react";
+import {
+  EMPTY_IMAGE_EDITS,
+  ImageEdits,
+  MAX_STRAIGHTEN_DEGREES,
+  NormalizedRect,
+  PatientRightSide,
+  QuarterRotation,
+  renderGeometryPreview,
+} from "@/utils/imageEditing";
+
+interface ImageEditorProps {
+  open: boolean;
+  baseSrc: string;
+  initialEdits: ImageEdits;
+  onSave: (edits: ImageEdits) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_LONG_EDGE = 1024;
+
+// Ignore accidental clicks that would create a near-empty crop
+const MIN_CROP_SIZE = 0.05;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const ImageEditor: React.FC<ImageEditorProps> = ({
+  open,
+  baseSrc,
+  initialEdits,
+  onSave,
+  onCancel,
+}) => {
+  const [edits, setEdits] = useState<ImageEdits>(initialEdits);
+  const [previewSrc, setPreviewSrc] = useState<string>("");
+  const [isCropping, setIsCropping] = useState(false);
+  const [draftCrop, setDraftCrop] = useState<NormalizedRect | null>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setEdits(initialEdits);
+      setIsCropping(false);
+      setDraftCrop(null);
+    }
+  }, [open, initialEdits]);
+
+  // Re-render the preview only when the geometry changes
+  const { rotation, straighten, flipHorizontal } = edits;
+  useEffect(() => {
+    if (!open) return;
+    let isCurrent = true;
+    renderGeometryPreview(baseSrc, { ...EMPTY_IMAGE_EDITS, rotation, straighten, flipHorizontal }, PREVIEW_LONG_EDGE)
+      .then((src) => isCurrent && setPreviewSrc(src))
+      .catch((error) => console.error("Error rendering preview:", error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [open, baseSrc, rotation, straighten, flipHorizontal]);
+
+  // Rotating or flipping changes the frame the crop was drawn on
+  const rotateBy = (quarterTurns: number) => {
+    setEdits((prev) => ({
+      ...prev,
+      rotation: (((prev.rotation + quarterTurns * 90) % 360) + 360) % 360 as QuarterRotation,
+      crop: null,
+    }));
+  };
+
+  const toggleFlip = () => {
+    setEdits((prev) => ({
+      ...prev,
+      flipHorizontal: !prev.flipHorizontal,
+      crop: null,
+      // Flipping mirrors the patient's sides as well
+      patientRightSide: prev.patientRightSide === "image_left"
+        ? "image_right"
+        : prev.patientRightSide === "image_right" ? "image_left" : null,
+    }));
+  };
+
+  const getPoint = (e: React.PointerEvent) => {
+    const bounds = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - bounds.left) / bounds.width),
+      y: clamp((e.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!isCropping) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = getPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = getPoint(e);
+    setDraftCrop({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (draftCrop && draftCrop.width > MIN_CROP_SIZE && draftCrop.height > MIN_CROP_SIZE) {
+      setEdits((prev) => ({ ...prev, crop: draftCrop }));
+      setIsCropping(false);
+    }
+    dragStartRef.current = null;
+    setDraftCrop(null);
+  };
+
+  const visibleCrop = draftCrop ?? edits.crop;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Edit image</DialogTitle>
+          <DialogDescription>
+            Crop, rotate, straighten or flip the image. Changes apply to the image sent for analysis and to the PDF.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center bg-muted rounded-lg p-2 min-h-[200px] items-center">
+          {previewSrc ? (
+            <div
+              ref={surfaceRef}
+              className={`relative inline-block touch-none select-none ${isCropping ? "cursor-crosshair" : ""}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img src={previewSrc} alt="Image preview" className="block max-h-[55vh] max-w-full" draggable={false} />
+              {visibleCrop && (
+                <div
+                  className="absolute border-2 border-primary shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] pointer-events-none"
+                  style={{
+                    left: `${visibleCrop.x * 100}%`,
+                    top: `${visibleCrop.y * 100}%`,
+                    width: `${visibleCrop.width * 100}%`,
+                    height: `${visibleCrop.height * 100}%`,
+                  }}
+                />
+              )}
+              {edits.patientRightSide && (
+                <>
+                  <span className="absolute top-1 left-2 text-lg font-bold text-white drop-shadow pointer-events-none">
+                    {edits.patientRightSide === "image_left" ? "R" : "L"}
+                  </span>
+                  <span className="absolute top-1 right-2 text-lg font-bold text-white drop-shadow pointer-events-none">
+                    {edits.patientRightSide === "image_left" ? "L" : "R"}
+                  </span>
+                </>
+              )}
+            </div>
+          ) : (
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          )}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => rotateBy(-1)} aria-label="Rotate left 90°">
+                <RotateCcw className="mr-1 h-4 w-4" />
+                90°
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => rotateBy(1)} aria-label="Rotate right 90°">
+                <RotateCw className="mr-1 h-4 w-4" />
+                90°
+              </Button>
+              <Button variant={flipHorizontal ? "default" : "outline"} size="sm" onClick={toggleFlip}>
+                <FlipHorizontal className="mr-1 h-4 w-4" />
+                Flip
+              </Button>
+              <Button
+                variant={isCropping ? "default" : "outline"}
+                size="sm"
+                onClick={() => setIsCropping((prev) => !prev)}
+              >
+                <Crop className="mr-1 h-4 w-4" />
+                {isCropping ? "Drag to crop" : "Crop"}
+              </Button>
+              {edits.crop && (
+                <Button variant="ghost" size="sm" onClick={() => setEdits((prev) => ({ ...prev, crop: null }))}>
+                  Reset crop
+                </Button>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs">Straighten: {straighten.toFixed(1)}°</Label>
+              <Slider
+                min={-MAX_STRAIGHTEN_DEGREES}
+                max={MAX_STRAIGHTEN_DEGREES}
+                step={0.5}
+                value={[straighten]}
+                onValueChange={([value]) => setEdits((prev) => ({ ...prev, straighten: value }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs">Patient left/right marker</Label>
+            <Select
+              value={edits.patientRightSide ?? "none"}
+              onValueChange={(value) =>
+                setEdits((prev) => ({
+                  ...prev,
+                  patientRightSide: value === "none" ? null : (value as PatientRightSide),
+                }))
+              }
+            >
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No marker</SelectItem>
+                <SelectItem value="image_left">Patient right on image left (standard)</SelectItem>
+                <SelectItem value="image_right">Patient right on image right</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Burns R and L labels into the image so orientation is unambiguous in the report.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2 sm:justify-between">
+          <Button variant="outline" size="sm" onClick={() => setEdits({ ...EMPTY_IMAGE_EDITS, redactions: edits.redactions })}>
+            Reset all
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={() => onSave(edits)}>Apply</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImageEditor;
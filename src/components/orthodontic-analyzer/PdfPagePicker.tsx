@@ -0,0 +1,59 @@
+import React from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { MAX_PDF_PAGES, RenderedPdfPage } from "@/utils/pdfRasterizer";
+
+interface PdfPagePickerProps {
+  open: boolean;
+  fileName: string;
+  pages: RenderedPdfPage[];
+  // Page count of the whole PDF; only the first MAX_PDF_PAGES are rendered
+  totalPages: number;
+  onSelect: (page: RenderedPdfPage) => void;
+  onCancel: () => void;
+}
+
+const PdfPagePicker: React.FC<PdfPagePickerProps> = ({
+  open,
+  fileName,
+  pages,
+  totalPages,
+  onSelect,
+  onCancel,
+}) => {
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Select the panoramic page</DialogTitle>
+          <DialogDescription>
+            {totalPages > pages.length
+              ? `${fileName} is long; showing the first ${MAX_PDF_PAGES} of ${totalPages} pages.`
+              : `${fileName} has ${pages.length} pages.`}{" "}
+            Choose the page that contains the panoramic X-ray.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 max-h-[60vh] overflow-y-auto p-1">
+          {pages.map((page) => (
+            <button
+              key={page.pageNumber}
+              type="button"
+              onClick={() => onSelect(page)}
+              className="group rounded-lg border border-border bg-muted p-2 text-left hover:border-primary focus:outline-none focus:ring-2 focus:ring-primary transition-colors"
+            >
+              <img
+                src={page.dataUrl}
+                alt={`Page ${page.pageNumber}`}
+                className="w-full aspect-[3/4] object-contain bg-background rounded"
+              />
+              <p className="text-xs text-center text-muted-foreground mt-2 group-hover:text-foreground">
+                Page {page.pageNumber}
+              </p>
+            </button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PdfPagePicker;
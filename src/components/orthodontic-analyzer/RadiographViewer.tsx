@@ -0,0 +1,286 @@
+import React, { useEffect, useId, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Label } from "@/components/ui/label";
+import { Contrast, Maximize, Search, ZoomIn, ZoomOut } from "lucide-react";
+import { CaseImage } from "@/hooks/orthodontic-analyzer/useCaseImages";
+import { IMAGE_VIEW_TYPE_CONFIG } from "@/config/imageViewTypes";
+import { sanitizeHtml } from "@/utils/sanitizeHtml";
+
+interface RadiographViewerProps {
+  open: boolean;
+  images: CaseImage[];
+  initialIndex: number;
+  // When provided, the report is shown next to the image for side-by-side review
+  reportHtml?: string;
+  onClose: () => void;
+}
+
+interface Adjustments {
+  brightness: number;
+  contrast: number;
+  gamma: number;
+  invert: boolean;
+}
+
+const DEFAULT_ADJUSTMENTS: Adjustments = { brightness: 1, contrast: 1, gamma: 1, invert: false };
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 10;
+const LOUPE_SIZE = 180;
+const LOUPE_ZOOM = 3;
+
+const RadiographViewer: React.FC<RadiographViewerProps> = ({
+  open,
+  images,
+  initialIndex,
+  reportHtml,
+  onClose,
+}) => {
+  const [index, setIndex] = useState(initialIndex);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [adjustments, setAdjustments] = useState<Adjustments>(DEFAULT_ADJUSTMENTS);
+  const [showLoupe, setShowLoupe] = useState(false);
+  const [loupe, setLoupe] = useState<{ x: number; y: number; backgroundX: number; backgroundY: number; width: number; height: number } | null>(null);
+  const panStartRef = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const filterId = `gamma-${useId().replace(/:/g, "")}`;
+
+  const image = images[index];
+
+  useEffect(() => {
+    if (open) setIndex(initialIndex);
+  }, [open, initialIndex]);
+
+  // Each image starts unzoomed
+  useEffect(() => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+  }, [index]);
+
+  const cssFilter = [
+    `url(#${filterId})`,
+    `brightness(${adjustments.brightness})`,
+    `contrast(${adjustments.contrast})`,
+    adjustments.invert ? "invert(1)" : "",
+  ].join(" ");
+
+  // Zooms around a point in viewport coordinates so the content under the cursor stays put
+  const zoomAt = (nextZoom: number, pointX: number, pointY: number) => {
+    const clampedZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, nextZoom));
+    const ratio = clampedZoom / zoom;
+    setOffset((prev) =>
+      clampedZoom === MIN_ZOOM
+        ? { x: 0, y: 0 }
+        : { x: pointX - (pointX - prev.x) * ratio, y: pointY - (pointY - prev.y) * ratio }
+    );
+    setZoom(clampedZoom);
+  };
+
+  // Points are relative to the viewport center, which is the transform origin
+  const zoomAtCenter = (factor: number) => zoomAt(zoom * factor, 0, 0);
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const bounds = viewportRef.current!.getBoundingClientRect();
+    const pointX = e.clientX - bounds.left - bounds.width / 2;
+    const pointY = e.clientY - bounds.top - bounds.height / 2;
+    zoomAt(zoom * (e.deltaY < 0 ? 1.15 : 1 / 1.15), pointX, pointY);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (zoom === MIN_ZOOM) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panStartRef.current = { x: e.clientX, y: e.clientY, offsetX: offset.x, offsetY: offset.y };
+  };
+
+  const updateLoupe = (e: React.PointerEvent) => {
+    const imageBounds = imageRef.current?.getBoundingClientRect();
+    const viewportBounds = viewportRef.current?.getBoundingClientRect();
+    if (!imageBounds || !viewportBounds) return;
+    const relativeX = (e.clientX - imageBounds.left) / imageBounds.width;
+    const relativeY = (e.clientY - imageBounds.top) / imageBounds.height;
+    if (relativeX < 0 || relativeX > 1 || relativeY < 0 || relativeY > 1) {
+      setLoupe(null);
+      return;
+    }
+    const width = imageBounds.width * LOUPE_ZOOM;
+    const height = imageBounds.height * LOUPE_ZOOM;
+    setLoupe({
+      x: e.clientX - viewportBounds.left,
+      y: e.clientY - viewportBounds.top,
+      backgroundX: LOUPE_SIZE / 2 - relativeX * width,
+      backgroundY: LOUPE_SIZE / 2 - relativeY * height,
+      width,
+      height,
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = panStartRef.current;
+    if (start) {
+      setOffset({ x: start.offsetX + e.clientX - start.x, y: start.offsetY + e.clientY - start.y });
+    }
+    if (showLoupe) updateLoupe(e);
+  };
+
+  const handlePointerUp = () => {
+    panStartRef.current = null;
+  };
+
+  const resetView = () => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+    setAdjustments(DEFAULT_ADJUSTMENTS);
+  };
+
+  if (!image) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-[98vw] w-[98vw] h-[95vh] p-4 flex flex-col gap-3">
+        <div className="pr-8">
+          <DialogTitle className="text-base">
+            Image {index + 1} of {images.length} — {IMAGE_VIEW_TYPE_CONFIG[image.viewType].label}
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            Scroll to zoom, drag to pan. Adjustments only affect this view, not the image sent for analysis.
+          </DialogDescription>
+        </div>
+
+        {/* Gamma has no CSS filter function, so it is applied through an SVG transfer filter */}
+        <svg className="absolute w-0 h-0" aria-hidden="true">
+          <filter id={filterId}>
+            <feComponentTransfer>
+              <feFuncR type="gamma" amplitude="1" exponent={1 / adjustments.gamma} offset="0" />
+              <feFuncG type="gamma" amplitude="1" exponent={1 / adjustments.gamma} offset="0" />
+              <feFuncB type="gamma" amplitude="1" exponent={1 / adjustments.gamma} offset="0" />
+            </feComponentTransfer>
+          </filter>
+        </svg>
+
+        <div className={`flex-1 min-h-0 grid gap-4 ${reportHtml ? "lg:grid-cols-[3fr_2fr]" : ""}`}>
+          <div className="flex flex-col min-h-0 gap-3">
+            <div
+              ref={viewportRef}
+              className={`relative flex-1 min-h-[240px] overflow-hidden rounded-lg bg-black touch-none select-none ${
+                zoom > MIN_ZOOM ? "cursor-grab active:cursor-grabbing" : ""
+              }`}
+              onWheel={handleWheel}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={() => setLoupe(null)}
+            >
+              <div
+                className="absolute inset-0 flex items-center justify-center"
+                style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})` }}
+              >
+                <img
+                  ref={imageRef}
+                  src={image.src}
+                  alt={`Case image ${index + 1}`}
+                  className="max-w-full max-h-full object-contain"
+                  style={{ filter: cssFilter }}
+                  draggable={false}
+                />
+              </div>
+              {showLoupe && loupe && (
+                <div
+                  className="absolute pointer-events-none rounded-full border-2 border-white shadow-lg"
+                  style={{
+                    width: LOUPE_SIZE,
+                    height: LOUPE_SIZE,
+                    left: loupe.x - LOUPE_SIZE / 2,
+                    top: loupe.y - LOUPE_SIZE / 2,
+                    backgroundImage: `url(${image.src})`,
+                    backgroundRepeat: "no-repeat",
+                    backgroundSize: `${loupe.width}px ${loupe.height}px`,
+                    backgroundPosition: `${loupe.backgroundX}px ${loupe.backgroundY}px`,
+                    filter: cssFilter,
+                  }}
+                />
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" onClick={() => zoomAtCenter(1.25)} aria-label="Zoom in">
+                  <ZoomIn className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => zoomAtCenter(0.8)} aria-label="Zoom out">
+                  <ZoomOut className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant={showLoupe ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setShowLoupe((prev) => !prev)}
+                  aria-label="Toggle magnifier"
+                >
+                  <Search className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant={adjustments.invert ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setAdjustments((prev) => ({ ...prev, invert: !prev.invert }))}
+                  aria-label="Invert image"
+                >
+                  <Contrast className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={resetView} aria-label="Reset view">
+                  <Maximize className="h-4 w-4" />
+                </Button>
+              </div>
+              {([
+                ["brightness", "Brightness", 0.2, 3],
+                ["contrast", "Contrast", 0.2, 3],
+                ["gamma", "Gamma", 0.2, 3],
+              ] as const).map(([key, label, min, max]) => (
+                <div key={key} className="w-36 space-y-1.5">
+                  <Label className="text-xs">
+                    {label}: {adjustments[key].toFixed(2)}
+                  </Label>
+                  <Slider
+                    min={min}
+                    max={max}
+                    step={0.05}
+                    value={[adjustments[key]]}
+                    onValueChange={([value]) => setAdjustments((prev) => ({ ...prev, [key]: value }))}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {images.length > 1 && (
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {images.map((caseImage, imageIndex) => (
+                  <button
+                    key={caseImage.id}
+                    type="button"
+                    onClick={() => setIndex(imageIndex)}
+                    className={`h-14 w-20 flex-shrink-0 rounded border-2 bg-muted overflow-hidden ${
+                      imageIndex === index ? "border-primary" : "border-transparent"
+                    }`}
+                    aria-label={`Show image ${imageIndex + 1}`}
+                  >
+                    <img src={caseImage.src} alt="" className="h-full w-full object-contain" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {reportHtml && (
+            <div className="min-h-0 overflow-y-auto rounded-lg border border-border p-4 prose prose-sm prose-headings:font-semibold prose-headings:text-foreground prose-p:text-muted-foreground prose-li:text-muted-foreground prose-strong:text-foreground max-w-none dark:prose-invert">
+              <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(reportHtml) }} />
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RadiographViewer;
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { History, Trash2 } from "lucide-react";
+import { RedactionRect, loadRedactionLayout } from "@/utils/imageEditing";
+
+interface RedactionEditorProps {
+  open: boolean;
+  imageSrc: string;
+  imageWidth: number;
+  imageHeight: number;
+  initialRedactions: RedactionRect[];
+  onSave: (redactions: RedactionRect[]) => void;
+  onCancel: () => void;
+}
+
+// Ignore accidental clicks that would create near-invisible rectangles
+const MIN_RECT_SIZE = 0.005;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const RedactionEditor: React.FC<RedactionEditorProps> = ({
+  open,
+  imageSrc,
+  imageWidth,
+  imageHeight,
+  initialRedactions,
+  onSave,
+  onCancel,
+}) => {
+  const [redactions, setRedactions] = useState<RedactionRect[]>(initialRedactions);
+  const [draft, setDraft] = useState<RedactionRect | null>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const savedLayout = open ? loadRedactionLayout(imageWidth, imageHeight) : null;
+
+  useEffect(() => {
+    if (open) {
+      setRedactions(initialRedactions);
+      setDraft(null);
+    }
+  }, [open, initialRedactions]);
+
+  const getPoint = (e: React.PointerEvent) => {
+    const bounds = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - bounds.left) / bounds.width),
+      y: clamp((e.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = getPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = getPoint(e);
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.width > MIN_RECT_SIZE && draft.height > MIN_RECT_SIZE) {
+      setRedactions((prev) => [...prev, draft]);
+    }
+    dragStartRef.current = null;
+    setDraft(null);
+  };
+
+  const rectStyle = (rect: RedactionRect): React.CSSProperties => ({
+    left: `${rect.x * 100}%`,
+    top: `${rect.y * 100}%`,
+    width: `${rect.width * 100}%`,
+    height: `${rect.height * 100}%`,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Redact patient details</DialogTitle>
+          <DialogDescription>
+            Drag over burned-in names, dates of birth or clinic details. Redacted areas are blacked out in the image sent for analysis and in the PDF.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center bg-muted rounded-lg p-2">
+          <div
+            ref={surfaceRef}
+            className="relative inline-block cursor-crosshair touch-none select-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <img
+              src={imageSrc}
+              alt="Image to redact"
+              className="block max-h-[60vh] max-w-full"
+              draggable={false}
+            />
+            {redactions.map((rect, index) => (
+              <div key={index} className="absolute bg-black" style={rectStyle(rect)}>
+                <button
+                  type="button"
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={() => setRedactions((prev) => prev.filter((_, i) => i !== index))}
+                  className="absolute -top-2 -right-2 rounded-full bg-destructive text-destructive-foreground p-0.5"
+                  aria-label={`Remove redaction ${index + 1}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            {draft && (
+              <div className="absolute border-2 border-primary bg-black/60" style={rectStyle(draft)} />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => savedLayout && setRedactions(savedLayout)}
+              disabled={!savedLayout}
+              title={`Last layout used for ${imageWidth}×${imageHeight} images`}
+            >
+              <History className="mr-2 h-4 w-4" />
+              Use last layout
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRedactions([])}
+              disabled={redactions.length === 0}
+            >
+              Clear
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={() => onSave(redactions)}>
+              Apply {redactions.length > 0 ? `(${redactions.length})` : ""}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RedactionEditor;
@@ -0,0 +1,6 @@
+// Clinician-only mode: the analyzer asks for a signed-in account before anything
+// can be uploaded. Set VITE_REQUIRE_CLINICIAN_AUTH=true together with
+// REQUIRE_CLINICIAN_AUTH=true on the analyze-orthodontic-image edge function,
+// which is what actually rejects callers without the clinician role. Sign-up is
+// hidden in this mode, since new accounts need the role granted by an admin.
+export const REQUIRE_CLINICIAN_AUTH = import.meta.env.VITE_REQUIRE_CLINICIAN_AUTH === "true";
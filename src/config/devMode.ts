@@ -0,0 +1,25 @@
+import { MOCK_ANALYSIS_SCENARIOS, MockAnalysisScenario } from "../../supabase/functions/_shared/mockAnalysis.ts";
+
+// Mock analysis for running the upload → analyze → PDF loop without a model vendor.
+// VITE_MOCK_ANALYSIS=local generates reports in the browser, so no Supabase project
+// is needed; VITE_MOCK_ANALYSIS=edge forwards the chosen scenario to an edge
+// function deployed with ANALYSIS_PROVIDER=mock.
+export type MockAnalysisMode = "local" | "edge";
+
+const configuredMode = import.meta.env.VITE_MOCK_ANALYSIS;
+
+export const MOCK_ANALYSIS_MODE: MockAnalysisMode | null =
+  configuredMode === "local" || configuredMode === "edge" ? configuredMode : null;
+
+// The scenario list is shared with the edge function's mock provider
+export type { MockAnalysisScenario };
+export { MOCK_ANALYSIS_SCENARIOS };
+
+export const MOCK_ANALYSIS_SCENARIO_LABELS: Record<MockAnalysisScenario, string> = {
+  success: "Success",
+  slow: "Slow response",
+  malformed: "Malformed output",
+  refused: "Model refusal",
+  rate_limited: "Upstream 429",
+  server_error: "Upstream 500",
+};
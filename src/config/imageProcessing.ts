@@ -0,0 +1,9 @@
+// Client-side preprocessing applied to every case image before analysis.
+// Vision models downsample large images anyway, so sending more pixels
+// only costs upload time on clinic connections.
+export const IMAGE_PROCESSING = {
+  // Longest edge (in pixels) of the image sent for analysis
+  maxLongEdge: Number(import.meta.env.VITE_IMAGE_MAX_LONG_EDGE) || 2048,
+  // JPEG quality (0-1) used when re-encoding
+  jpegQuality: Number(import.meta.env.VITE_IMAGE_JPEG_QUALITY) || 0.85,
+};
@@ -0,0 +1,46 @@
+// Standard orthodontic record views a case image can be tagged with.
+// Keep in sync with VIEW_TYPE_DESCRIPTIONS in the analyze-orthodontic-image edge function.
+export const IMAGE_VIEW_TYPES = [
+  "panoramic",
+  "lateral_ceph",
+  "intraoral_frontal",
+  "intraoral_lateral_right",
+  "intraoral_lateral_left",
+  "intraoral_occlusal_upper",
+  "intraoral_occlusal_lower",
+  "extraoral_frontal",
+  "extraoral_profile",
+  "extraoral_smile",
+  "unspecified",
+] as const;
+
+export type ImageViewType = typeof IMAGE_VIEW_TYPES[number];
+
+export const isRadiographView = (viewType: ImageViewType) => viewType === "panoramic" || viewType === "lateral_ceph";
+
+// PDF layout for each view: radiographs get more room than clinical photos
+export type PdfImageLayout = "full-width" | "half-width" | "grid-image";
+
+export const IMAGE_VIEW_TYPE_CONFIG: Record<ImageViewType, { label: string; caption: string; pdfLayout: PdfImageLayout }> = {
+  panoramic: { label: "Panoramic X-ray", caption: "Panoramic Radiograph", pdfLayout: "full-width" },
+  lateral_ceph: { label: "Lateral Ceph", caption: "Lateral Cephalogram", pdfLayout: "half-width" },
+  intraoral_frontal: { label: "Intraoral – Frontal", caption: "Intraoral Frontal", pdfLayout: "grid-image" },
+  intraoral_lateral_right: { label: "Intraoral – Right Lateral", caption: "Intraoral Right Buccal", pdfLayout: "grid-image" },
+  intraoral_lateral_left: { label: "Intraoral – Left Lateral", caption: "Intraoral Left Buccal", pdfLayout: "grid-image" },
+  intraoral_occlusal_upper: { label: "Intraoral – Upper Occlusal", caption: "Upper Occlusal", pdfLayout: "grid-image" },
+  intraoral_occlusal_lower: { label: "Intraoral – Lower Occlusal", caption: "Lower Occlusal", pdfLayout: "grid-image" },
+  extraoral_frontal: { label: "Extraoral – Frontal", caption: "Extraoral Frontal", pdfLayout: "grid-image" },
+  extraoral_profile: { label: "Extraoral – Profile", caption: "Extraoral Profile", pdfLayout: "grid-image" },
+  extraoral_smile: { label: "Extraoral – Smile", caption: "Extraoral Smile", pdfLayout: "grid-image" },
+  unspecified: { label: "Untagged", caption: "Photo", pdfLayout: "grid-image" },
+};
+
+// Standard orthodontic photo series walked through by the phone and tablet capture flow
+export const GUIDED_CAPTURE_STEPS: { viewType: ImageViewType; instruction: string }[] = [
+  { viewType: "intraoral_frontal", instruction: "Retract the cheeks and center the incisors with the teeth in occlusion" },
+  { viewType: "intraoral_lateral_right", instruction: "Retract the right cheek and line up the canine and first molar" },
+  { viewType: "intraoral_lateral_left", instruction: "Retract the left cheek and line up the canine and first molar" },
+  { viewType: "intraoral_occlusal_upper", instruction: "Use a mirror and fit the whole upper arch inside the outline" },
+  { viewType: "intraoral_occlusal_lower", instruction: "Use a mirror and fit the whole lower arch inside the outline" },
+  { viewType: "extraoral_profile", instruction: "Patient faces right, head level, lips relaxed" },
+];
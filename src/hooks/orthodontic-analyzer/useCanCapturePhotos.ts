@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+
+const COARSE_POINTER_QUERY = "(pointer: coarse)";
+
+// Guided capture is for phones and tablets: a touch screen with a camera the page can open.
+// Screen width isn't used, so tablets (an iPad in portrait is 768px wide) get it too.
+export const useCanCapturePhotos = () => {
+  const [canCapture, setCanCapture] = useState(false);
+
+  useEffect(() => {
+    const hasCamera = Boolean(navigator.mediaDevices?.getUserMedia);
+    const mql = window.matchMedia(COARSE_POINTER_QUERY);
+    const onChange = () => setCanCapture(hasCamera && mql.matches);
+    mql.addEventListener("change", onChange);
+    onChange();
+    return () => mql.removeEventListener("change", onChange);
+  }, []);
+
+  return canCapture;
+};
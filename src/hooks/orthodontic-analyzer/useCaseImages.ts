@@ -0,0 +1,460 @@
+import { useState, useRef } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { getImageMimeType, isDicomFile, validateDicomFile, validateImageFile, validatePdfFile } from "@/utils/fileValidation";
+import { convertHeicToJpeg, isHeicFile } from "@/utils/heicConversion";
+import { convertDicomToPng } from "@/utils/dicom";
+import { renderPdfPages, pdfPageToFile, RenderedPdfPage } from "@/utils/pdfRasterizer";
+import { logUsageEvent } from "@/utils/usageLogging";
+import { ImageViewType, isRadiographView } from "@/config/imageViewTypes";
+import { classifyImage, ImageClassification } from "@/utils/imageClassifier";
+import { preprocessImage } from "@/utils/imagePreprocessing";
+import { listImageMetadata, stripImageMetadata } from "@/utils/metadataScrubber";
+import { assessImageQuality, evaluateImageQuality, QualityReport } from "@/utils/imageQuality";
+import { hammingDistance, NEAR_DUPLICATE_MAX_DISTANCE, perceptualHash, sha256Hex } from "@/utils/imageHashing";
+import { MAX_ANALYSIS_IMAGES } from "../../../supabase/functions/_shared/analysisRequest.ts";
+import { EMPTY_IMAGE_EDITS, ImageEdits, hasGeometryChanged, renderEditedImage, saveRedactionLayout } from "@/utils/imageEditing";
+
+// The analysis prompt is written for between 1 and 8 images; the edge function enforces the same limit
+export const MAX_CASE_IMAGES = MAX_ANALYSIS_IMAGES;
+
+export interface CaseImage {
+  id: string;
+  name: string;
+  // Preprocessed JPEG with edits applied; this is what is sent for analysis
+  file: File;
+  src: string;
+  // Preprocessed image before edits, so edits can be changed or undone
+  baseSrc: string;
+  width: number;
+  height: number;
+  edits: ImageEdits;
+  // Size of the file as uploaded, before conversion and recompression
+  originalSize: number;
+  // Embedded metadata found in the upload and not sent for analysis
+  removedMetadata: string[];
+  quality: QualityReport | null;
+  // Set when the clinician chooses to analyze an image that failed the quality check
+  qualityOverride: boolean;
+  viewType: ImageViewType;
+  // Local heuristic suggestion, kept so overrides can be compared against it
+  classification: ImageClassification | null;
+  // SHA-256 of the file as uploaded
+  contentHash: string | null;
+  perceptualHash: string | null;
+  // Earlier image in the case that shows the same picture
+  duplicateOfId: string | null;
+}
+
+export interface PdfSelection {
+  file: File;
+  pages: RenderedPdfPage[];
+  totalPages: number;
+}
+
+interface PreparedImage {
+  file: File;
+  uploadMetadata?: Record<string, unknown>;
+  // Metadata already discarded while decoding (e.g. DICOM header tags)
+  removedMetadata?: string[];
+}
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(new Error("Unable to read image file"));
+    reader.readAsDataURL(file);
+  });
+
+const createImageId = () => `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const useCaseImages = () => {
+  const [images, setImages] = useState<CaseImage[]>([]);
+  // Case size including images added since the last render, so overlapping uploads
+  // (a paste during a slow PDF or HEIC conversion, say) count each other's images
+  const caseSizeRef = useRef(0);
+  caseSizeRef.current = images.length;
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [pdfSelection, setPdfSelection] = useState<PdfSelection | null>(null);
+  const pdfSelectionResolverRef = useRef<((page: RenderedPdfPage | null) => void) | null>(null);
+  const { toast } = useToast();
+
+  const showError = (title: string, description: string) => {
+    toast({ title, description, variant: "destructive" });
+  };
+
+  // Opens the page picker and waits for the clinician's choice (null when cancelled)
+  const requestPdfPage = (selection: PdfSelection): Promise<RenderedPdfPage | null> =>
+    new Promise((resolve) => {
+      pdfSelectionResolverRef.current = resolve;
+      setPdfSelection(selection);
+    });
+
+  const resolvePdfSelection = (page: RenderedPdfPage | null) => {
+    pdfSelectionResolverRef.current?.(page);
+    pdfSelectionResolverRef.current = null;
+    setPdfSelection(null);
+  };
+
+  const preparePdf = async (file: File): Promise<PreparedImage | null> => {
+    const validation = await validatePdfFile(file);
+    if (!validation.valid) {
+      showError("Invalid file", validation.error || "Invalid PDF file");
+      return null;
+    }
+
+    let pages: RenderedPdfPage[];
+    let totalPages: number;
+    try {
+      ({ pages, totalPages } = await renderPdfPages(file));
+    } catch (error) {
+      showError("PDF could not be read", error instanceof Error ? error.message : "Unable to render this PDF");
+      return null;
+    }
+
+    if (pages.length === 0) {
+      showError("Empty PDF", `${file.name} does not contain any pages`);
+      return null;
+    }
+
+    // Single-page exports don't need the clinician to choose
+    const page = pages.length === 1 ? pages[0] : await requestPdfPage({ file, pages, totalPages });
+    if (!page) return null;
+
+    return {
+      file: pdfPageToFile(page, file.name),
+      uploadMetadata: { pdfPage: page.pageNumber, pdfPageCount: totalPages },
+    };
+  };
+
+  const prepareDicom = async (file: File): Promise<PreparedImage | null> => {
+    const validation = await validateDicomFile(file);
+    if (!validation.valid) {
+      showError("Invalid file", validation.error || "Invalid DICOM file");
+      return null;
+    }
+
+    try {
+      const { file: pngFile, info, strippedTags } = await convertDicomToPng(file);
+
+      if (info.burnedInAnnotation) {
+        toast({
+          title: "Burned-in annotations",
+          description: `${file.name} is flagged as containing burned-in text. Check it for patient details before analysis.`,
+        });
+      }
+
+      return {
+        file: pngFile,
+        uploadMetadata: {
+          dicomModality: info.modality || null,
+          dicomTransferSyntax: info.transferSyntaxUid,
+          dicomStrippedTagCount: strippedTags.length,
+        },
+        removedMetadata: strippedTags.map((tagName) => `DICOM ${tagName}`),
+      };
+    } catch (error) {
+      showError("DICOM could not be read", error instanceof Error ? error.message : "Unable to decode this DICOM file");
+      return null;
+    }
+  };
+
+  const prepareImage = async (file: File): Promise<PreparedImage | null> => {
+    const validation = await validateImageFile(file);
+    if (!validation.valid) {
+      showError("Invalid file", validation.error || "Invalid image file");
+      return null;
+    }
+
+    // HEIC/HEIF can't be rendered or analyzed directly, so convert it to JPEG first
+    if (isHeicFile(file)) {
+      try {
+        return { file: await convertHeicToJpeg(file) };
+      } catch (error) {
+        showError("Unsupported HEIC image", error instanceof Error ? error.message : "This HEIC image could not be decoded");
+        return null;
+      }
+    }
+
+    return { file };
+  };
+
+  const prepareFile = async (file: File): Promise<PreparedImage | null> => {
+    // PDF exports are rasterized and the clinician picks the radiograph page
+    if (file.type === "application/pdf") {
+      return preparePdf(file);
+    }
+
+    // DICOM is decoded locally and only the rendered pixels are kept
+    if (await isDicomFile(file)) {
+      return prepareDicom(file);
+    }
+
+    return prepareImage(file);
+  };
+
+  // A view type supplied by the caller (e.g. guided camera capture) replaces the suggestion.
+  // Resolves to the number of images that joined the case.
+  const addFiles = async (files: File[], taggedViewType?: ImageViewType): Promise<number> => {
+    if (files.length === 0) return 0;
+
+    const remainingSlots = MAX_CASE_IMAGES - caseSizeRef.current;
+    if (remainingSlots <= 0) {
+      showError("Case is full", `A case can contain up to ${MAX_CASE_IMAGES} images`);
+      return 0;
+    }
+
+    const acceptedFiles = files.slice(0, remainingSlots);
+    // Files left out because the case filled up, here or while this batch was being processed
+    const droppedNames = files.slice(remainingSlots).map((file) => file.name);
+
+    // View types and hashes already in the case, including images added during this batch
+    const caseViewTypes = images.map((image) => image.viewType);
+    const caseHashes = images.map(({ id, name, contentHash, perceptualHash }) => ({ id, name, contentHash, perceptualHash }));
+
+    let addedCount = 0;
+    setIsProcessing(true);
+    try {
+      // Process sequentially so PDF page pickers appear one at a time
+      for (const file of acceptedFiles) {
+        if (caseSizeRef.current >= MAX_CASE_IMAGES) {
+          droppedNames.push(file.name);
+          continue;
+        }
+
+        const prepared = await prepareFile(file);
+        if (!prepared) continue;
+
+        const { file: decodedFile, uploadMetadata } = prepared;
+
+        // Downscale and recompress so large scans don't become huge request bodies.
+        // Decoding honours the EXIF orientation, so metadata is listed on the upload
+        // and stripped from the re-encoded output rather than before decoding.
+        let processed;
+        let imageFile: File;
+        let removedMetadata: string[];
+        try {
+          const foundMetadata = await listImageMetadata(decodedFile);
+          processed = await preprocessImage(decodedFile);
+          const scrubbed = await stripImageMetadata(processed.file);
+          imageFile = scrubbed.file;
+          removedMetadata = Array.from(
+            new Set([...(prepared.removedMetadata ?? []), ...foundMetadata, ...scrubbed.removed])
+          );
+        } catch (error) {
+          showError("Image could not be processed", error instanceof Error ? error.message : "Unable to process this image");
+          continue;
+        }
+        const src = imageFile === processed.file ? processed.dataUrl : await readFileAsDataUrl(imageFile);
+
+        let classification: ImageClassification | null = null;
+        try {
+          classification = await classifyImage(src);
+        } catch (error) {
+          console.error("Error classifying image:", error);
+        }
+
+        // Without a suggestion, the first image defaults to the panoramic view
+        const viewType: ImageViewType = taggedViewType
+          ?? classification?.suggestedViewType
+          ?? (caseViewTypes.includes("panoramic") ? "unspecified" : "panoramic");
+
+        let quality: QualityReport | null = null;
+        try {
+          quality = await assessImageQuality(src, processed.originalWidth, processed.originalHeight, viewType);
+        } catch (error) {
+          console.error("Error checking image quality:", error);
+        }
+
+        let contentHash: string | null = null;
+        let imagePerceptualHash: string | null = null;
+        try {
+          [contentHash, imagePerceptualHash] = await Promise.all([sha256Hex(file), perceptualHash(src)]);
+        } catch (error) {
+          console.error("Error hashing image:", error);
+        }
+
+        // Another upload may have filled the case while this file was being processed
+        if (caseSizeRef.current >= MAX_CASE_IMAGES) {
+          droppedNames.push(file.name);
+          continue;
+        }
+
+        const duplicate = caseHashes.find(
+          (existing) =>
+            (contentHash && existing.contentHash === contentHash) ||
+            (imagePerceptualHash &&
+              existing.perceptualHash &&
+              hammingDistance(existing.perceptualHash, imagePerceptualHash) <= NEAR_DUPLICATE_MAX_DISTANCE)
+        );
+        if (duplicate) {
+          toast({
+            title: "Possible duplicate image",
+            description: `${file.name} looks the same as ${duplicate.name}, which is already in this case.`,
+          });
+        }
+
+        const hasRadiograph = caseViewTypes.some(isRadiographView);
+        if (classification?.category === "clinical_photo" && !hasRadiograph && !taggedViewType) {
+          toast({
+            title: "This looks like a photo, not an X-ray",
+            description: `${file.name} appears to be a color photo. Make sure the case also includes the panoramic radiograph.`,
+          });
+        }
+
+        caseViewTypes.push(viewType);
+
+        const id = createImageId();
+        caseHashes.push({ id, name: file.name, contentHash, perceptualHash: imagePerceptualHash });
+
+        caseSizeRef.current++;
+        setImages((prev) => prev.length >= MAX_CASE_IMAGES ? prev : [
+          ...prev,
+          {
+            id,
+            name: file.name,
+            file: imageFile,
+            src,
+            baseSrc: src,
+            width: processed.width,
+            height: processed.height,
+            edits: EMPTY_IMAGE_EDITS,
+            originalSize: file.size,
+            removedMetadata,
+            quality,
+            qualityOverride: false,
+            viewType,
+            classification,
+            contentHash,
+            perceptualHash: imagePerceptualHash,
+            duplicateOfId: duplicate?.id ?? null,
+          },
+        ]);
+        addedCount++;
+
+        // Log upload event
+        logUsageEvent('upload', {
+          fileType: getImageMimeType(file) || "unknown",
+          fileSize: file.size,
+          sentSize: imageFile.size,
+          resized: processed.width !== processed.originalWidth,
+          grayscale: processed.isGrayscale,
+          metadataRemovedCount: removedMetadata.length,
+          contentHash,
+          perceptualHash: imagePerceptualHash,
+          duplicateInCase: Boolean(duplicate),
+          ...(decodedFile !== file && { convertedFrom: getImageMimeType(file) || "unknown" }),
+          ...(taggedViewType && { taggedViewType }),
+          ...uploadMetadata,
+          ...(quality && {
+            quality: quality.scores,
+            qualityIssues: quality.issues.map((issue) => issue.code),
+            qualityPassed: quality.passed,
+          }),
+          ...(classification && {
+            suggestedCategory: classification.category,
+            suggestionConfidence: Math.round(classification.confidence * 100) / 100,
+          }),
+        });
+      }
+    } catch (error) {
+      console.error("Error adding images:", error);
+      showError("Upload failed", "There was an error reading your image. Please try again.");
+    } finally {
+      setIsProcessing(false);
+    }
+
+    if (droppedNames.length > 0) {
+      toast({
+        title: "Too many images",
+        description: `A case can contain up to ${MAX_CASE_IMAGES} images. Not added: ${droppedNames.join(", ")}.`,
+      });
+    }
+    return addedCount;
+  };
+
+  const removeImage = (index: number) => {
+    setImages((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const moveImage = (fromIndex: number, toIndex: number) => {
+    setImages((prev) => {
+      if (toIndex < 0 || toIndex >= prev.length) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
+  };
+
+  const setImageViewType = (id: string, viewType: ImageViewType) => {
+    // Exposure limits differ between radiographs and photos, so the quality result follows the tag
+    setImages((prev) =>
+      prev.map((image) =>
+        image.id === id
+          ? { ...image, viewType, quality: image.quality && evaluateImageQuality(image.quality.scores, viewType) }
+          : image
+      )
+    );
+  };
+
+  const overrideImageQuality = (id: string) => {
+    setImages((prev) => prev.map((image) => (image.id === id ? { ...image, qualityOverride: true } : image)));
+  };
+
+  const updateImageEdits = async (id: string, requestedEdits: ImageEdits) => {
+    const image = images.find((caseImage) => caseImage.id === id);
+    if (!image) return;
+
+    // Redactions are positioned on the edited frame, so a new crop or rotation invalidates them
+    const redactionsInvalidated = hasGeometryChanged(image.edits, requestedEdits) && requestedEdits.redactions.length > 0;
+    const edits = redactionsInvalidated ? { ...requestedEdits, redactions: [] } : requestedEdits;
+
+    try {
+      const rendered = await renderEditedImage(image.baseSrc, edits, image.file.name);
+      setImages((prev) =>
+        prev.map((caseImage) =>
+          caseImage.id === id
+            ? { ...caseImage, edits, file: rendered.file, src: rendered.dataUrl, width: rendered.width, height: rendered.height }
+            : caseImage
+        )
+      );
+
+      if (redactionsInvalidated) {
+        toast({
+          title: "Redactions cleared",
+          description: "The image was cropped, rotated or flipped. Please redact patient details again.",
+          variant: "destructive",
+        });
+      }
+
+      // Remember the layout so the next image from the same unit can be redacted in one click
+      if (edits.redactions.length > 0) {
+        saveRedactionLayout(rendered.width, rendered.height, edits.redactions);
+      }
+    } catch (error) {
+      console.error("Error applying image edits:", error);
+      showError("Edit failed", "There was an error applying your changes to the image. Please try again.");
+    }
+  };
+
+  const clearImages = () => {
+    setImages([]);
+  };
+
+  return {
+    images,
+    isProcessing,
+    isFull: images.length >= MAX_CASE_IMAGES,
+    pdfSelection,
+    selectPdfPage: (page: RenderedPdfPage) => resolvePdfSelection(page),
+    cancelPdfSelection: () => resolvePdfSelection(null),
+    addFiles,
+    removeImage,
+    moveImage,
+    setImageViewType,
+    updateImageEdits,
+    overrideImageQuality,
+    clearImages,
+  };
+};
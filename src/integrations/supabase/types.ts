@@ -14,30 +14,167 @@ export type Database = {
   }
   public: {
     Tables: {
+      analysis_rate_limit_events: {
+        Row: {
+          created_at: string
+          estimated_cost_usd: number
+          id: string
+          ip_hash: string
+          session_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          estimated_cost_usd?: number
+          id?: string
+          ip_hash: string
+          session_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          estimated_cost_usd?: number
+          id?: string
+          ip_hash?: string
+          session_id?: string | null
+        }
+        Relationships: []
+      }
       orthodontic_usage_logs: {
         Row: {
           created_at: string
           error_message: string | null
           event_type: string
+          experiment_arm: string | null
+          experiment_id: string | null
           id: string
           metadata: Json | null
           session_id: string
+          user_id: string | null
         }
         Insert: {
           created_at?: string
           error_message?: string | null
           event_type: string
+          experiment_arm?: string | null
+          experiment_id?: string | null
           id?: string
           metadata?: Json | null
           session_id: string
+          user_id?: string | null
         }
         Update: {
           created_at?: string
           error_message?: string | null
           event_type?: string
+          experiment_arm?: string | null
+          experiment_id?: string | null
           id?: string
           metadata?: Json | null
           session_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orthodontic_usage_logs_experiment_id_fkey"
+            columns: ["experiment_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_experiments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prompt_experiments: {
+        Row: {
+          arm_a_model: string | null
+          arm_a_template_id: string
+          arm_b_model: string | null
+          arm_b_percent: number
+          arm_b_template_id: string
+          created_at: string
+          created_by: string | null
+          ended_at: string | null
+          id: string
+          is_active: boolean
+          language: string
+          name: string
+        }
+        Insert: {
+          arm_a_model?: string | null
+          arm_a_template_id: string
+          arm_b_model?: string | null
+          arm_b_percent?: number
+          arm_b_template_id: string
+          created_at?: string
+          created_by?: string | null
+          ended_at?: string | null
+          id?: string
+          is_active?: boolean
+          language?: string
+          name: string
+        }
+        Update: {
+          arm_a_model?: string | null
+          arm_a_template_id?: string
+          arm_b_model?: string | null
+          arm_b_percent?: number
+          arm_b_template_id?: string
+          created_at?: string
+          created_by?: string | null
+          ended_at?: string | null
+          id?: string
+          is_active?: boolean
+          language?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prompt_experiments_arm_a_template_id_fkey"
+            columns: ["arm_a_template_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prompt_experiments_arm_b_template_id_fkey"
+            columns: ["arm_b_template_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prompt_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          language: string
+          notes: string | null
+          system_prompt: string
+          user_prompt_template: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          language?: string
+          notes?: string | null
+          system_prompt: string
+          user_prompt_template: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          language?: string
+          notes?: string | null
+          system_prompt?: string
+          user_prompt_template?: string
+          version?: number
         }
         Relationships: []
       }
@@ -67,6 +204,28 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      activate_prompt_template: {
+        Args: {
+          _template_id: string
+        }
+        Returns: undefined
+      }
+      consume_analysis_quota: {
+        Args: {
+          _daily_spend_cap_usd: number
+          _estimated_cost_usd: number
+          _ip_hash: string
+          _ip_limit: number
+          _session_id: string
+          _session_limit: number
+          _window_seconds: number
+        }
+        Returns: {
+          allowed: boolean
+          limit_type: string
+          retry_after_seconds: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -74,9 +233,16 @@ export type Database = {
         }
         Returns: boolean
       }
+      record_report_rating: {
+        Args: {
+          _analysis_id: string
+          _rating: number
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      app_role: "admin" | "moderator" | "user"
+      app_role: "admin" | "moderator" | "user" | "clinician"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -204,7 +370,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "moderator", "user"],
+      app_role: ["admin", "moderator", "user", "clinician"],
     },
   },
 } as const
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,6 +8,7 @@ import { useToast } from "@/hooks/use-toast";
 import Navigation from "@/components/Navigation";
 import Footer from "@/components/Footer";
 import { getSupabaseClient } from "@/integrations/supabase/safeClient";
+import { REQUIRE_CLINICIAN_AUTH } from "@/config/auth";
 
 const Auth = () => {
   const [isLogin, setIsLogin] = useState(true);
@@ -15,8 +16,15 @@ const Auth = () => {
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
 
+  // Where to go after signing in; only same-site paths are honoured
+  const requestedRedirect = searchParams.get("redirect");
+  const redirectTo = requestedRedirect?.startsWith("/") && !requestedRedirect.startsWith("//")
+    ? requestedRedirect
+    : "/ortho-internal-stats";
+
   useEffect(() => {
     let isMounted = true;
 
@@ -27,12 +35,12 @@ const Auth = () => {
         // Check if user is already logged in
         const { data: { session } } = await supabase.auth.getSession();
         if (session && isMounted) {
-          navigate("/ortho-internal-stats");
+          navigate(redirectTo);
         }
 
         const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
           if (session) {
-            navigate("/ortho-internal-stats");
+            navigate(redirectTo);
           }
         });
 
@@ -56,7 +64,7 @@ const Auth = () => {
         /* ignore */
       });
     };
-  }, [navigate]);
+  }, [navigate, redirectTo]);
 
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -80,7 +88,7 @@ const Auth = () => {
           email,
           password,
           options: {
-            emailRedirectTo: `${window.location.origin}/ortho-internal-stats`,
+            emailRedirectTo: `${window.location.origin}${redirectTo}`,
           },
         });
         if (error) throw error;
@@ -110,7 +118,9 @@ const Auth = () => {
             <CardTitle>{isLogin ? "Login" : "Sign Up"}</CardTitle>
             <CardDescription>
               {isLogin
-                ? "Enter your credentials to access the analytics dashboard"
+                ? redirectTo === "/ortho-internal-stats"
+                  ? "Enter your credentials to access the analytics dashboard"
+                  : "Sign in with your clinician account to use the analyzer"
                 : "Create an account to get started"}
             </CardDescription>
           </CardHeader>
@@ -142,16 +152,22 @@ const Auth = () => {
               <Button type="submit" className="w-full" disabled={loading}>
                 {loading ? "Loading..." : isLogin ? "Login" : "Sign Up"}
               </Button>
-              <Button
-                type="button"
-                variant="ghost"
-                className="w-full"
-                onClick={() => setIsLogin(!isLogin)}
-              >
-                {isLogin
-                  ? "Don't have an account? Sign up"
-                  : "Already have an account? Login"}
-              </Button>
+              {REQUIRE_CLINICIAN_AUTH ? (
+                <p className="text-sm text-center text-muted-foreground">
+                  Clinician accounts are set up by your practice administrator.
+                </p>
+              ) : (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full"
+                  onClick={() => setIsLogin(!isLogin)}
+                >
+                  {isLogin
+                    ? "Don't have an account? Sign up"
+                    : "Already have an account? Login"}
+                </Button>
+              )}
             </form>
           </CardContent>
         </Card>
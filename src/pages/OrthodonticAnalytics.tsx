@@ -7,6 +7,22 @@ import { Button } from "@/components/ui/button";
 import { getSupabaseClient } from "@/integrations/supabase/safeClient";
 import { useToast } from "@/hooks/use-toast";
 
+// Outcomes of one arm of a prompt experiment
+interface ExperimentArmStats {
+  key: string;
+  experiment: string;
+  isActive: boolean;
+  arm: "A" | "B";
+  share: number;
+  setup: string;
+  analyses: number;
+  successes: number;
+  avgLatencyMs: number | null;
+  avgOutputTokens: number | null;
+  avgRating: number | null;
+  ratings: number;
+}
+
 const OrthodonticAnalytics = () => {
   const [stats, setStats] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -107,15 +123,97 @@ const OrthodonticAnalytics = () => {
         if (log.event_type === "analysis_error") daily[date].errors++;
       });
 
+      // The same image analyzed more than once, identified by the upload's content hash
+      const imageAnalyses: Record<string, { count: number; sessions: Set<string>; lastSeen: string }> = {};
+      data?.forEach((log) => {
+        if (log.event_type !== "analysis_start") return;
+        const hashes = (log.metadata as { image_hashes?: (string | null)[] } | null)?.image_hashes ?? [];
+        new Set(hashes).forEach((hash) => {
+          if (!hash) return;
+          if (!imageAnalyses[hash]) {
+            imageAnalyses[hash] = { count: 0, sessions: new Set(), lastSeen: log.created_at };
+          }
+          imageAnalyses[hash].count++;
+          if (log.session_id) imageAnalyses[hash].sessions.add(log.session_id);
+        });
+      });
+      const repeatedImages = Object.entries(imageAnalyses)
+        .filter(([, entry]) => entry.count > 1)
+        .map(([hash, entry]) => ({ hash, count: entry.count, sessions: entry.sessions.size, lastSeen: entry.lastSeen }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 20);
+
       const errorLogs = data?.filter(
         (log) => log.event_type === "analysis_error" && log.error_message
       ) || [];
 
+      // Outcomes per arm of the most recent prompt experiments, from the rows each arm was stamped on
+      const { data: experiments, error: experimentsError } = await supabase
+        .from("prompt_experiments")
+        .select(`
+          *,
+          arm_a_template:prompt_templates!prompt_experiments_arm_a_template_id_fkey(version),
+          arm_b_template:prompt_templates!prompt_experiments_arm_b_template_id_fkey(version)
+        `)
+        .order("created_at", { ascending: false })
+        .limit(5);
+
+      if (experimentsError) throw experimentsError;
+
+      let experimentLogs: { event_type: string; experiment_id: string | null; experiment_arm: string | null; metadata: unknown }[] = [];
+      if (experiments && experiments.length > 0) {
+        const { data: logs, error: logsError } = await supabase
+          .from("orthodontic_usage_logs")
+          .select("event_type, experiment_id, experiment_arm, metadata")
+          .in("experiment_id", experiments.map((experiment) => experiment.id));
+
+        if (logsError) throw logsError;
+        experimentLogs = logs || [];
+      }
+
+      const average = (values: number[]) =>
+        values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+      const experimentArms: ExperimentArmStats[] = (experiments || []).flatMap((experiment) =>
+        (["A", "B"] as const).map((arm) => {
+          const logs = experimentLogs
+            .filter((log) => log.experiment_id === experiment.id && log.experiment_arm === arm)
+            .map((log) => ({
+              eventType: log.event_type,
+              metadata: (log.metadata ?? {}) as { duration_ms?: number; output_tokens?: number | null; rating?: number },
+            }));
+          const successes = logs.filter((log) => log.eventType === "analysis_success");
+          const errors = logs.filter((log) => log.eventType === "analysis_error");
+          const ratings = logs
+            .filter((log) => log.eventType === "report_rating")
+            .map((log) => Number(log.metadata.rating))
+            .filter((rating) => rating >= 1 && rating <= 5);
+          const template = arm === "A" ? experiment.arm_a_template : experiment.arm_b_template;
+          const model = arm === "A" ? experiment.arm_a_model : experiment.arm_b_model;
+
+          return {
+            key: `${experiment.id}-${arm}`,
+            experiment: experiment.name,
+            isActive: experiment.is_active,
+            arm,
+            share: arm === "A" ? 100 - experiment.arm_b_percent : experiment.arm_b_percent,
+            setup: `Prompt v${template?.version ?? "?"}${model ? `, ${model}` : ""}`,
+            analyses: successes.length + errors.length,
+            successes: successes.length,
+            avgLatencyMs: average(successes.map((log) => log.metadata.duration_ms).filter((value) => typeof value === "number")),
+            avgOutputTokens: average(successes.map((log) => log.metadata.output_tokens).filter((value) => typeof value === "number")),
+            avgRating: average(ratings),
+            ratings: ratings.length,
+          };
+        })
+      );
+
       setStats({
         total: data?.length || 0,
         daily,
         recentLogs: data?.slice(0, 10) || [],
         errorLogs: errorLogs.slice(0, 20), // Last 20 errors
+        repeatedImages,
+        experimentArms,
       });
     } catch (error) {
       console.error("Error fetching stats:", error);
@@ -160,9 +258,14 @@ const OrthodonticAnalytics = () => {
                   Internal analytics dashboard
                 </p>
               </div>
-              <Button onClick={handleLogout} variant="outline">
-                Logout
-              </Button>
+              <div className="flex gap-2">
+                <Button onClick={() => navigate("/ortho-internal-prompts")} variant="outline">
+                  Prompt Templates
+                </Button>
+                <Button onClick={handleLogout} variant="outline">
+                  Logout
+                </Button>
+              </div>
             </div>
           </div>
 
@@ -241,6 +344,102 @@ const OrthodonticAnalytics = () => {
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle>Repeat Analyses of Identical Images</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {stats.repeatedImages.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No image was analyzed more than once</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left py-2 px-4">Content Hash (SHA-256)</th>
+                          <th className="text-right py-2 px-4">Analyses</th>
+                          <th className="text-right py-2 px-4">Sessions</th>
+                          <th className="text-right py-2 px-4">Last Analyzed</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stats.repeatedImages.map((entry: { hash: string; count: number; sessions: number; lastSeen: string }) => (
+                          <tr key={entry.hash} className="border-b">
+                            <td className="py-2 px-4 font-mono text-xs" title={entry.hash}>
+                              {entry.hash.slice(0, 16)}…
+                            </td>
+                            <td className="text-right py-2 px-4">{entry.count}</td>
+                            <td className="text-right py-2 px-4">{entry.sessions}</td>
+                            <td className="text-right py-2 px-4">{new Date(entry.lastSeen).toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Prompt Experiments</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {stats.experimentArms.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No prompt experiments yet</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left py-2 px-4">Experiment</th>
+                          <th className="text-left py-2 px-4">Arm</th>
+                          <th className="text-right py-2 px-4">Analyses</th>
+                          <th className="text-right py-2 px-4">Success Rate</th>
+                          <th className="text-right py-2 px-4">Avg Latency</th>
+                          <th className="text-right py-2 px-4">Avg Output Tokens</th>
+                          <th className="text-right py-2 px-4">Clinician Rating</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stats.experimentArms.map((arm: ExperimentArmStats) => (
+                          <tr key={arm.key} className="border-b">
+                            <td className="py-2 px-4 font-medium">
+                              {arm.arm === "A" && (
+                                <>
+                                  {arm.experiment}
+                                  {arm.isActive && <span className="ml-2 text-xs text-green-600">Running</span>}
+                                </>
+                              )}
+                            </td>
+                            <td className="py-2 px-4">
+                              {arm.arm} ({arm.share}%)
+                              <div className="text-xs text-muted-foreground">{arm.setup}</div>
+                            </td>
+                            <td className="text-right py-2 px-4">{arm.analyses}</td>
+                            <td className="text-right py-2 px-4">
+                              {arm.analyses > 0
+                                ? `${Math.round((arm.successes / arm.analyses) * 100)}%`
+                                : 'N/A'}
+                            </td>
+                            <td className="text-right py-2 px-4">
+                              {arm.avgLatencyMs !== null ? `${(arm.avgLatencyMs / 1000).toFixed(1)} s` : 'N/A'}
+                            </td>
+                            <td className="text-right py-2 px-4">
+                              {arm.avgOutputTokens !== null ? Math.round(arm.avgOutputTokens) : 'N/A'}
+                            </td>
+                            <td className="text-right py-2 px-4">
+                              {arm.avgRating !== null ? `${arm.avgRating.toFixed(1)} / 5 (${arm.ratings})` : 'N/A'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>Error Logs</CardTitle>
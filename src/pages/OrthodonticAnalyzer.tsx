@@ -1,93 +1,269 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
 import Navigation from "@/components/Navigation";
 import Footer from "@/components/Footer";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { Upload, Scan, RotateCcw, Loader2 } from "lucide-react";
+import { Upload, Scan, RotateCcw, Loader2, Columns2, Camera, Clock, LogIn, Star } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { getSupabaseClient } from "@/integrations/supabase/safeClient";
 import { generatePDF } from "@/utils/pdf-export";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { validateImageFile } from "@/utils/fileValidation";
+import { useCaseImages, MAX_CASE_IMAGES } from "@/hooks/orthodontic-analyzer/useCaseImages";
+import { useCanCapturePhotos } from "@/hooks/orthodontic-analyzer/useCanCapturePhotos";
+import PdfPagePicker from "@/components/orthodontic-analyzer/PdfPagePicker";
+import CaseImageGrid from "@/components/orthodontic-analyzer/CaseImageGrid";
+import RedactionEditor from "@/components/orthodontic-analyzer/RedactionEditor";
+import ImageEditor from "@/components/orthodontic-analyzer/ImageEditor";
+import RadiographViewer from "@/components/orthodontic-analyzer/RadiographViewer";
+import CameraCapture from "@/components/orthodontic-analyzer/CameraCapture";
+import { IMAGE_VIEW_TYPE_CONFIG, ImageViewType } from "@/config/imageViewTypes";
+import { formatFileSize } from "@/utils/imagePreprocessing";
+import { EMPTY_IMAGE_EDITS, hasGeometryChanged, ImageEdits, loadRedactionLayout, RedactionRect, renderEditedImage } from "@/utils/imageEditing";
 import panorexExample from "@/assets/panorex-example.jpg";
 import { sanitizeHtml } from "@/utils/sanitizeHtml";
-
-// Generate or retrieve session ID for usage tracking
-const getSessionId = () => {
-  let sessionId = sessionStorage.getItem('ortho_session_id');
-  if (!sessionId) {
-    sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    sessionStorage.setItem('ortho_session_id', sessionId);
-  }
-  return sessionId;
-};
-
-// Log usage event
-const logUsageEvent = async (eventType: string, metadata?: any, errorMessage?: string) => {
-  try {
-    const supabase = await getSupabaseClient();
-    await supabase.from("orthodontic_usage_logs").insert({
-      event_type: eventType,
-      session_id: getSessionId(),
-      metadata: metadata || null,
-      error_message: errorMessage || null,
-    });
-  } catch (error) {
-    console.error("Error logging usage:", error);
-  }
-};
+import { getSessionId, logUsageEvent, recordReportRating } from "@/utils/usageLogging";
+import { REQUIRE_CLINICIAN_AUTH } from "@/config/auth";
+import { MOCK_ANALYSIS_MODE, MOCK_ANALYSIS_SCENARIOS, MOCK_ANALYSIS_SCENARIO_LABELS, MockAnalysisScenario } from "@/config/devMode";
+import { runMockAnalysis } from "@/utils/mockAnalysis";
+import { OrthodonticReport, PromptVersion, isValidReportSection, renderReportHtml, validateOrthodonticReport } from "@/utils/reportRenderer";
+import {
+  AnalysisAuthError,
+  AnalysisFailedError,
+  AnalysisRateLimitError,
+  AnalysisRequestError,
+  AnalysisStreamEvent,
+  describeAnalysisFailure,
+  describeAnalysisProgress,
+  formatRetryAfter,
+  readAnalysisStream,
+  toAnalysisError,
+} from "@/utils/analysisStream";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 const OrthodonticAnalyzer = () => {
-  const [selectedImages, setSelectedImages] = useState<string[]>([]);
-  const [imageFiles, setImageFiles] = useState<File[]>([]);
-  const [treatmentPlan, setTreatmentPlan] = useState<string>("");
+  const {
+    images: caseImages,
+    isProcessing: isProcessingImages,
+    isFull: isCaseFull,
+    pdfSelection,
+    selectPdfPage,
+    cancelPdfSelection,
+    addFiles,
+    removeImage,
+    moveImage,
+    setImageViewType,
+    updateImageEdits,
+    overrideImageQuality,
+    clearImages,
+  } = useCaseImages();
+  const [report, setReport] = useState<OrthodonticReport | null>(null);
+  const [reportPrompt, setReportPrompt] = useState<PromptVersion | undefined>();
+  // Server-issued id of the analysis behind the report; ratings refer to it
+  const [reportAnalysisId, setReportAnalysisId] = useState<string | null>(null);
+  // The clinician's 1–5 rating of the current report, compared across experiment arms
+  const [reportRating, setReportRating] = useState<number | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [progressLabel, setProgressLabel] = useState("");
+  // Sections received so far while the report is streaming in
+  const [partialReport, setPartialReport] = useState<Partial<OrthodonticReport> | null>(null);
   const [isPdfGenerating, setIsPdfGenerating] = useState(false);
   const [showPdfDialog, setShowPdfDialog] = useState(false);
   const [pdfSuccess, setPdfSuccess] = useState(false);
-  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [redactingImageId, setRedactingImageId] = useState<string | null>(null);
+  const [redactionFrameSrc, setRedactionFrameSrc] = useState<string>("");
+  const [editingImageId, setEditingImageId] = useState<string | null>(null);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const [viewerWithReport, setViewerWithReport] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  const [mockScenario, setMockScenario] = useState<MockAnalysisScenario>("success");
+  // Set after a 429; analysis stays disabled until this time (ms since epoch)
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const canCapturePhotos = useCanCapturePhotos();
   const treatmentPlanRef = useRef<HTMLDivElement>(null);
   const treatmentPlanCardRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const navigate = useNavigate();
+  // Only tracked in clinician-only mode; null until the session check finishes
+  const [clinicianEmail, setClinicianEmail] = useState<string | null>(null);
+  const [isSignedIn, setIsSignedIn] = useState<boolean | null>(REQUIRE_CLINICIAN_AUTH ? null : true);
+  const needsSignIn = REQUIRE_CLINICIAN_AUTH && isSignedIn === false;
 
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  useEffect(() => {
+    if (!REQUIRE_CLINICIAN_AUTH) return;
+    let unsubscribe: (() => void) | undefined;
 
-    // Validate the file
-    const validation = await validateImageFile(file);
-    if (!validation.valid) {
-      toast({
-        title: "Invalid file",
-        description: validation.error || "Invalid image file",
-        variant: "destructive",
+    getSupabaseClient()
+      .then(async (supabase) => {
+        const { data: { session } } = await supabase.auth.getSession();
+        setIsSignedIn(!!session);
+        setClinicianEmail(session?.user.email ?? null);
+
+        const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+          setIsSignedIn(!!session);
+          setClinicianEmail(session?.user.email ?? null);
+        });
+        unsubscribe = () => subscription.unsubscribe();
+      })
+      .catch((error) => {
+        console.error("Error checking clinician session:", error);
+        setIsSignedIn(false);
       });
-      return;
+
+    return () => unsubscribe?.();
+  }, []);
+
+  const handleSignIn = () => navigate(`/auth?redirect=${encodeURIComponent("/")}`);
+
+  // The report is kept as validated JSON; HTML is only produced for display and export
+  const treatmentPlan = useMemo(() => (report ? renderReportHtml(report, reportPrompt) : ""), [report, reportPrompt]);
+  const partialReportHtml = useMemo(() => (partialReport ? renderReportHtml(partialReport) : ""), [partialReport]);
+
+  const handleAddFiles = async (files: File[], viewType?: ImageViewType) => {
+    if (files.length === 0 || needsSignIn) return 0;
+    // A changed case invalidates the previous report
+    setReport(null);
+    return addFiles(files, viewType);
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Reset the input so re-selecting the same file triggers another upload
+    e.target.value = "";
+    await handleAddFiles(files);
+  };
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === "dragenter" || e.type === "dragover") {
+      setDragActive(true);
+    } else if (e.type === "dragleave" && !e.currentTarget.contains(e.relatedTarget as Node)) {
+      // Moving between children of the card also fires dragleave
+      setDragActive(false);
     }
+  };
 
-    // Read the file and set it as the only image
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      setSelectedImages([e.target?.result as string]);
-    };
-    reader.readAsDataURL(file);
-    
-    setImageFiles([file]);
-    setTreatmentPlan("");
-    
-    // Log upload event
-    logUsageEvent('upload', { fileType: file.type, fileSize: file.size });
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+    if (isAnalyzing || isProcessingImages) return;
+    await handleAddFiles(Array.from(e.dataTransfer.files ?? []));
+  };
+
+  // Clinicians often copy the pano straight from the imaging software
+  const handlePaste = async (e: ClipboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (target?.closest("input, textarea, [contenteditable='true']")) return;
+
+    const files = Array.from(e.clipboardData?.items ?? [])
+      .filter((item) => item.kind === "file" && item.type.startsWith("image/"))
+      .map((item) => item.getAsFile())
+      .filter((file): file is File => file !== null)
+      // Clipboard images are all named "image.png", so give each a distinct name
+      .map((file, index) => {
+        const extension = file.type.split("/")[1] || "png";
+        return new File([file], `pasted-image-${Date.now()}-${index + 1}.${extension}`, { type: file.type });
+      });
+
+    if (files.length === 0) return;
+    e.preventDefault();
+    if (isAnalyzing || isProcessingImages) return;
+    await handleAddFiles(files);
   };
 
+  // The listener is registered once; the ref always points at the latest handler
+  const pasteHandlerRef = useRef(handlePaste);
+  pasteHandlerRef.current = handlePaste;
+
+  useEffect(() => {
+    const listener = (e: ClipboardEvent) => pasteHandlerRef.current(e);
+    window.addEventListener("paste", listener);
+    return () => window.removeEventListener("paste", listener);
+  }, []);
+
+  // Ticks while rate limited so the "try again in N minutes" notice counts down
+  useEffect(() => {
+    if (!rateLimitedUntil) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= rateLimitedUntil) setRateLimitedUntil(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [rateLimitedUntil]);
+
+  const isRateLimited = rateLimitedUntil !== null && rateLimitedUntil > now;
+
+  // Stop guided capture once there's no room left in the case
+  useEffect(() => {
+    if (isCaseFull) setShowCamera(false);
+  }, [isCaseFull]);
+
   const handleRemoveImage = (index: number) => {
-    setSelectedImages(prev => prev.filter((_, i) => i !== index));
-    setImageFiles(prev => prev.filter((_, i) => i !== index));
+    removeImage(index);
+    setReport(null);
+  };
+
+  const handleMoveImage = (fromIndex: number, toIndex: number) => {
+    moveImage(fromIndex, toIndex);
+  };
+
+  const redactingImage = caseImages.find((image) => image.id === redactingImageId);
+  const editingImage = caseImages.find((image) => image.id === editingImageId);
+
+  // Redactions are drawn on the cropped and rotated frame, without existing redactions or markers
+  const handleOpenRedaction = async (id: string) => {
+    const image = caseImages.find((caseImage) => caseImage.id === id);
+    if (!image) return;
+    try {
+      const frameSrc = hasGeometryChanged(EMPTY_IMAGE_EDITS, image.edits)
+        ? (await renderEditedImage(image.baseSrc, { ...image.edits, redactions: [], patientRightSide: null }, image.file.name)).dataUrl
+        : image.baseSrc;
+      setRedactionFrameSrc(frameSrc);
+      setRedactingImageId(id);
+    } catch (error) {
+      console.error("Error preparing redaction:", error);
+    }
+  };
+
+  const handleSaveEdits = async (edits: ImageEdits) => {
+    if (!editingImage) return;
+    const imageId = editingImage.id;
+    setEditingImageId(null);
+    await updateImageEdits(imageId, edits);
+  };
+
+  const handleSaveRedactions = async (redactions: RedactionRect[]) => {
+    if (!redactingImage) return;
+    const imageId = redactingImage.id;
+    setRedactingImageId(null);
+    await updateImageEdits(imageId, { ...redactingImage.edits, redactions });
+  };
+
+  const handleApplySavedRedaction = async (id: string) => {
+    const image = caseImages.find((caseImage) => caseImage.id === id);
+    const layout = image && loadRedactionLayout(image.width, image.height);
+    if (!image || !layout) return;
+    await updateImageEdits(id, { ...image.edits, redactions: layout });
+  };
+
+  // Progress follows the real analysis stages; sections are shown as soon as they arrive
+  const handleStreamEvent = (event: AnalysisStreamEvent) => {
+    const { percent, label } = describeAnalysisProgress(event);
+    setProgress(percent);
+    setProgressLabel(label);
+    if (event.type === "section" && isValidReportSection(event.key, event.value)) {
+      setPartialReport((previous) => ({ ...previous, [event.key]: event.value }));
+    }
   };
 
   const handleAnalyze = async () => {
-    if (imageFiles.length === 0) {
+    if (caseImages.length === 0) {
       toast({
         title: "No image selected",
         description: "Please upload a panorex image first",
@@ -96,44 +272,69 @@ const OrthodonticAnalyzer = () => {
       return;
     }
 
+    const failingImages = caseImages.filter((image) => image.quality && !image.quality.passed && !image.qualityOverride);
+    if (failingImages.length > 0) {
+      toast({
+        title: "Image quality check failed",
+        description: `${failingImages.length} image(s) failed the quality check. Replace them or choose "Use this image anyway".`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsAnalyzing(true);
-    setProgress(0);
-    setTreatmentPlan("");
+    setReport(null);
+    setPartialReport({});
+    handleStreamEvent({ type: "stage", stage: "uploading" });
     
     // Log analysis start
-    logUsageEvent('analysis_start');
-    
-    // Start progress simulation
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-    }
-    
-    let i = 0;
-    progressIntervalRef.current = setInterval(() => {
-      if (i < 60) {
-        i += 2;
-      } else if (i < 90) {
-        i += 1;
-      } else if (i < 99) {
-        i += 0.5;
-      }
-      setProgress(Math.min(Math.round(i), 99));
-      if (i >= 99 && progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-      }
-    }, 1200);
+    logUsageEvent('analysis_start', {
+      image_count: caseImages.length,
+      image_types: caseImages.map((image) => image.viewType),
+      quality_overrides: caseImages.filter((image) => image.qualityOverride).length,
+      image_hashes: caseImages.map((image) => image.contentHash),
+    });
     
       try {
-        const supabase = await getSupabaseClient();
-        const { data, error } = await supabase.functions.invoke("analyze-orthodontic-image", {
-          body: { images: selectedImages },
-        });
+        const images = caseImages.map((image) => image.src);
+        const imageTypes = caseImages.map((image) => image.viewType);
+        let result: { report: unknown; prompt?: PromptVersion; analysisId?: string };
 
-      if (error) throw error;
+        if (MOCK_ANALYSIS_MODE === "local") {
+          result = await runMockAnalysis(images, mockScenario, handleStreamEvent);
+        } else {
+          const supabase = await getSupabaseClient();
+          const response = await supabase.functions.invoke("analyze-orthodontic-image", {
+            // The language picks the prompt template variant; the function falls back to English
+            body: { images, imageTypes, language: navigator.language.slice(0, 2).toLowerCase() },
+            headers: {
+              Accept: "text/event-stream",
+              // Lets the function apply its per-session rate limit
+              "x-session-id": getSessionId(),
+              // Only honoured by an edge function running the mock provider
+              ...(MOCK_ANALYSIS_MODE === "edge" && { "x-mock-scenario": mockScenario }),
+            },
+          });
+          if (response.error) throw await toAnalysisError(response.error);
+          // Event streams come back as the raw Response; a JSON body means the function didn't stream
+          result = response.data instanceof Response
+            ? await readAnalysisStream(response.data, handleStreamEvent)
+            : { report: response.data?.report, prompt: response.data?.prompt, analysisId: response.data?.analysisId };
+        }
+
+      const validation = validateOrthodonticReport(result.report);
+      if (validation.valid === false) {
+        throw new AnalysisFailedError({ error: `Invalid report: ${validation.errors.join("; ")}`, code: "invalid_output" });
+      }
 
       setProgress(100);
+      setProgressLabel("Report ready");
       setTimeout(() => {
-        setTreatmentPlan(data.analysis);
+        setReport(validation.report);
+        setReportPrompt(result.prompt);
+        setReportAnalysisId(result.analysisId ?? null);
+        setReportRating(null);
+        setPartialReport(null);
         toast({
           title: "Analysis complete",
           description: "Your orthodontic evaluation report is ready",
@@ -141,7 +342,7 @@ const OrthodonticAnalyzer = () => {
         setIsAnalyzing(false);
         
         // Log successful analysis
-        logUsageEvent('analysis_success');
+        logUsageEvent('analysis_success', result.prompt ? { prompt_version: result.prompt.version, prompt_language: result.prompt.language } : null);
         
         // Scroll to treatment plan
         setTimeout(() => {
@@ -150,20 +351,45 @@ const OrthodonticAnalyzer = () => {
       }, 500);
     } catch (error) {
       console.error('Error analyzing image:', error);
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-      }
       setProgress(0);
+      setProgressLabel("");
+      setPartialReport(null);
       
       // Log error
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logUsageEvent('analysis_error', null, errorMessage);
       
-      toast({
-        title: "Analysis failed",
-        description: "There was an error analyzing your image. Please try again.",
-        variant: "destructive",
-      });
+      if (error instanceof AnalysisAuthError) {
+        // The session expired or was never there; the upload card now shows the sign-in prompt
+        setIsSignedIn(false);
+        toast({
+          title: "Sign in required",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else if (error instanceof AnalysisRateLimitError) {
+        // Without a Retry-After, wait a minute before allowing another attempt
+        const retryAfterSeconds = error.retryAfterSeconds ?? 60;
+        setNow(Date.now());
+        setRateLimitedUntil(Date.now() + retryAfterSeconds * 1000);
+        toast({
+          title: "Analysis limit reached",
+          description: `${error.message}. Try again ${formatRetryAfter(retryAfterSeconds)}.`,
+          variant: "destructive",
+        });
+      } else {
+        // Rejected requests explain which image or limit to fix; other failures get a message for their cause
+        toast(error instanceof AnalysisRequestError
+          ? {
+            title: "Images rejected",
+            description: error.message,
+            variant: "destructive",
+          }
+          : {
+            ...describeAnalysisFailure(error instanceof AnalysisFailedError ? error.code : "internal"),
+            variant: "destructive",
+          });
+      }
       setIsAnalyzing(false);
     }
   };
@@ -186,15 +412,16 @@ const OrthodonticAnalyzer = () => {
     logUsageEvent('pdf_export_start');
     
     try {
-      // Prepare images array with captions for PDF
-      const pdfImages = selectedImages.map((imgSrc, index) => {
-        // Try to infer caption from image characteristics or use generic caption
-        let caption = `Photo ${index + 1}`;
-        
-        // You can enhance this logic to detect image types if needed
-        if (index === 0) caption = "Pano";
-        
-        return { src: imgSrc, caption };
+      // Captions and layout come from each image's view tag; repeated views are numbered
+      const pdfImages = caseImages.map(({ src, viewType }, index) => {
+        const { caption, pdfLayout } = IMAGE_VIEW_TYPE_CONFIG[viewType];
+        const sameViewCount = caseImages.filter((image) => image.viewType === viewType).length;
+        const sameViewIndex = caseImages.slice(0, index).filter((image) => image.viewType === viewType).length + 1;
+        return {
+          src,
+          caption: sameViewCount > 1 || viewType === "unspecified" ? `${caption} ${sameViewIndex}` : caption,
+          layout: pdfLayout,
+        };
       });
 
       const success = await generatePDF({
@@ -230,14 +457,19 @@ const OrthodonticAnalyzer = () => {
     }
   };
 
+  // One rating per report; the server ties it to the analysis' prompt version and experiment arm
+  const handleRateReport = (rating: number) => {
+    if (reportRating !== null || !reportAnalysisId) return;
+    setReportRating(rating);
+    recordReportRating(reportAnalysisId, rating);
+  };
+
   const handleClearAll = () => {
-    setSelectedImages([]);
-    setImageFiles([]);
-    setTreatmentPlan("");
+    clearImages();
+    setReport(null);
+    setPartialReport(null);
     setProgress(0);
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-    }
+    setProgressLabel("");
     toast({
       title: "Page cleared",
       description: "All images and results have been removed",
@@ -343,7 +575,7 @@ const OrthodonticAnalyzer = () => {
                   <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-3">
                     <span className="text-xl font-bold text-primary">1</span>
                   </div>
-                  <p className="text-sm">Upload a panoramic X-ray (JPG, PNG, PDF, HEIC — no DICOM required)</p>
+                  <p className="text-sm">Upload a panoramic X-ray (JPG, PNG, PDF, HEIC or DICOM)</p>
                 </div>
                 <div className="space-y-2">
                   <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-3">
@@ -448,15 +680,21 @@ const OrthodonticAnalyzer = () => {
           {/* UPLOAD & RESULTS SECTION */}
           <div className="grid md:grid-cols-2 gap-8 mb-8" id="upload-section">
             {/* Left: Image Viewer */}
-            <Card>
+            <Card
+              className={`transition-colors ${dragActive ? "border-primary bg-primary/5" : ""}`}
+              onDragEnter={handleDrag}
+              onDragLeave={handleDrag}
+              onDragOver={handleDrag}
+              onDrop={handleDrop}
+            >
               <CardHeader className="flex flex-row items-center justify-between">
                 <CardTitle>Panoramic X-ray Upload</CardTitle>
-                {(selectedImages.length > 0 || treatmentPlan) && (
+                {(caseImages.length > 0 || treatmentPlan) && (
                   <Button
                     variant="outline"
                     size="sm"
                     onClick={handleClearAll}
-                    disabled={isAnalyzing}
+                    disabled={isAnalyzing || isProcessingImages}
                   >
                     <RotateCcw className="mr-2 h-4 w-4" />
                     Clear All
@@ -464,63 +702,146 @@ const OrthodonticAnalyzer = () => {
                 )}
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="border-2 border-dashed border-border rounded-lg p-8 text-center">
-                  <Upload className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
-                  <p className="text-muted-foreground mb-4">
-                    Upload one panoramic X-ray image
-                  </p>
-                  <label htmlFor="image-upload">
-                    <Button variant="default" asChild disabled={selectedImages.length > 0}>
-                      <span>Select Panorex</span>
+                {needsSignIn ? (
+                  <div className="rounded-lg border-2 border-dashed border-border p-8 text-center">
+                    <LogIn className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                    <p className="font-medium mb-1">Clinician sign-in required</p>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      The analyzer is limited to clinician accounts. Sign in before adding case images.
+                    </p>
+                    <Button onClick={handleSignIn}>
+                      <LogIn className="mr-2 h-4 w-4" />
+                      Sign in
                     </Button>
-                  </label>
-                  <input
-                    id="image-upload"
-                    type="file"
-                    accept=".jpg,.jpeg,.png,.heic,.pdf"
-                    className="hidden"
-                    onChange={handleImageUpload}
-                  />
-                  <p className="text-xs text-muted-foreground mt-4">
-                    <span className="font-medium">Upload formats:</span> JPG, PNG, PDF, HEIC <span className="text-primary">(no DICOM required)</span>
-                  </p>
-                </div>
-
-                {selectedImages.length > 0 && (
+                  </div>
+                ) : (
                   <>
-                    <div className="relative aspect-[2/1] bg-muted rounded-lg overflow-hidden">
-                      <img
-                        src={selectedImages[0]}
-                        alt="Panorex X-ray"
-                        className="w-full h-full object-contain"
+                    {REQUIRE_CLINICIAN_AUTH && clinicianEmail && (
+                      <p className="text-xs text-muted-foreground text-right">Signed in as {clinicianEmail}</p>
+                    )}
+                    <div
+                      className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+                        dragActive ? "border-primary bg-primary/10" : "border-border"
+                      }`}
+                    >
+                      <Upload className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                      <p className="text-muted-foreground mb-4">
+                        Drag and drop, paste (Ctrl+V) or select up to {MAX_CASE_IMAGES} case images — panoramic X-ray, ceph, intraoral and extraoral photos
+                      </p>
+                      <label htmlFor="image-upload">
+                        <Button variant="default" asChild disabled={isCaseFull || isProcessingImages || isAnalyzing}>
+                          <span>
+                            {isProcessingImages ? (
+                              <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                Processing...
+                              </>
+                            ) : (
+                              "Select Images"
+                            )}
+                          </span>
+                        </Button>
+                      </label>
+                      {canCapturePhotos && (
+                        <Button
+                          variant="outline"
+                          className="ml-2"
+                          onClick={() => setShowCamera(true)}
+                          disabled={isCaseFull || isProcessingImages || isAnalyzing}
+                        >
+                          <Camera className="mr-2 h-4 w-4" />
+                          Guided Photos
+                        </Button>
+                      )}
+                      <input
+                        id="image-upload"
+                        type="file"
+                        multiple
+                        accept=".jpg,.jpeg,.png,.heic,.heif,.pdf,.dcm,.dicom"
+                        className="hidden"
+                        onChange={handleImageUpload}
+                        disabled={isCaseFull || isProcessingImages || isAnalyzing}
                       />
-                      <button
-                        onClick={() => handleRemoveImage(0)}
-                        className="absolute top-2 right-2 bg-destructive text-destructive-foreground rounded-full p-1.5 hover:bg-destructive/90 transition-colors"
-                        aria-label="Remove image"
-                      >
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                          <line x1="18" y1="6" x2="6" y2="18"></line>
-                          <line x1="6" y1="6" x2="18" y2="18"></line>
-                        </svg>
-                      </button>
+                      <p className="text-xs text-muted-foreground mt-4">
+                        <span className="font-medium">Upload formats:</span> JPG, PNG, PDF, HEIC, DICOM
+                      </p>
                     </div>
+
+                    {caseImages.length > 0 && (
+                      <>
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between text-sm text-muted-foreground">
+                            <span>{caseImages.length} of {MAX_CASE_IMAGES} images</span>
+                            <span>
+                              Sending {formatFileSize(caseImages.reduce((sum, image) => sum + image.file.size, 0))}
+                              {" "}(uploaded {formatFileSize(caseImages.reduce((sum, image) => sum + image.originalSize, 0))})
+                            </span>
+                          </div>
+                          <CaseImageGrid
+                            images={caseImages}
+                            onRemove={handleRemoveImage}
+                            onMove={handleMoveImage}
+                            onViewTypeChange={setImageViewType}
+                            onView={(index) => {
+                              setViewerWithReport(false);
+                              setViewerIndex(index);
+                            }}
+                            onEdit={setEditingImageId}
+                            onRedact={handleOpenRedaction}
+                            onApplySavedRedaction={handleApplySavedRedaction}
+                            onOverrideQuality={overrideImageQuality}
+                            disabled={isAnalyzing || isProcessingImages}
+                          />
+                        </div>
                     
-                    <Button
-                      onClick={handleAnalyze}
-                      disabled={isAnalyzing || selectedImages.length === 0}
-                      className="w-full"
-                      size="lg"
-                    >
-                      <Scan className="mr-2 h-4 w-4" />
-                      {isAnalyzing ? "Analyzing..." : "Generate First-Consult Summary"}
-                    </Button>
+                        <Button
+                          onClick={handleAnalyze}
+                          disabled={isAnalyzing || isProcessingImages || isRateLimited || caseImages.length === 0}
+                          className="w-full"
+                          size="lg"
+                        >
+                          <Scan className="mr-2 h-4 w-4" />
+                          {isAnalyzing ? "Analyzing..." : "Generate First-Consult Summary"}
+                        </Button>
 
-                    {isAnalyzing && (
-                      <div className="space-y-2">
-                        <Progress value={progress} className="w-full h-4" />
-                        <p className="text-sm text-center text-muted-foreground">{progress}% complete</p>
-                      </div>
+                        {isRateLimited && (
+                          <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                            <Clock className="h-4 w-4" />
+                            Analysis limit reached — try again {formatRetryAfter((rateLimitedUntil - now) / 1000)}
+                          </p>
+                        )}
+
+                        {MOCK_ANALYSIS_MODE && (
+                          <div className="flex items-center justify-between gap-2 rounded-md border border-dashed border-amber-500 px-3 py-2 text-xs text-amber-700 dark:text-amber-400">
+                            <span>Mock analysis ({MOCK_ANALYSIS_MODE}) — no model is called</span>
+                            <Select
+                              value={mockScenario}
+                              onValueChange={(value) => setMockScenario(value as MockAnalysisScenario)}
+                              disabled={isAnalyzing}
+                            >
+                              <SelectTrigger className="h-7 w-40 text-xs" aria-label="Mock scenario">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {MOCK_ANALYSIS_SCENARIOS.map((scenario) => (
+                                  <SelectItem key={scenario} value={scenario} className="text-xs">
+                                    {MOCK_ANALYSIS_SCENARIO_LABELS[scenario]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+
+                        {isAnalyzing && (
+                          <div className="space-y-2">
+                            <Progress value={progress} className="w-full h-4" />
+                            <p className="text-sm text-center text-muted-foreground">
+                              {progressLabel} · {progress}%
+                            </p>
+                          </div>
+                        )}
+                      </>
                     )}
                   </>
                 )}
@@ -532,39 +853,95 @@ const OrthodonticAnalyzer = () => {
               <CardHeader className="flex flex-row items-center justify-between">
                 <CardTitle>First-Consult Summary</CardTitle>
                 {treatmentPlan && (
-                  <Button
-                    onClick={handleGeneratePDF}
-                    disabled={isPdfGenerating}
-                    variant="outline"
-                    size="sm"
-                  >
-                    {isPdfGenerating ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Generating...
-                      </>
-                    ) : (
-                      "Export PDF"
+                  <div className="flex gap-2">
+                    {caseImages.length > 0 && (
+                      <Button
+                        onClick={() => {
+                          setViewerWithReport(true);
+                          setViewerIndex(0);
+                        }}
+                        variant="outline"
+                        size="sm"
+                      >
+                        <Columns2 className="mr-2 h-4 w-4" />
+                        Compare with images
+                      </Button>
                     )}
-                  </Button>
+                    <Button
+                      onClick={handleGeneratePDF}
+                      disabled={isPdfGenerating}
+                      variant="outline"
+                      size="sm"
+                    >
+                      {isPdfGenerating ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Generating...
+                        </>
+                      ) : (
+                        "Export PDF"
+                      )}
+                    </Button>
+                  </div>
                 )}
               </CardHeader>
               <CardContent>
-                {!treatmentPlan ? (
-                  <div className="text-center text-muted-foreground py-12">
-                    <p>Upload a panoramic X-ray and click Generate First-Consult Summary to view the report.</p>
-                  </div>
-                ) : (
-                  <div 
-                    ref={treatmentPlanRef}
+                {!treatmentPlan && isAnalyzing && partialReport && Object.keys(partialReport).length > 0 ? (
+                  <div
                     className="prose prose-headings:font-semibold prose-headings:text-foreground
                     prose-p:text-muted-foreground prose-p:leading-relaxed prose-p:my-3
                     prose-li:text-muted-foreground prose-strong:text-foreground
                     prose-ul:my-3 prose-ol:my-3 prose-li:my-1.5
                     prose-h2:text-2xl prose-h3:text-xl prose-h2:mt-6 prose-h2:mb-3 prose-h3:mt-4 prose-h3:mb-2
                     max-w-none dark:prose-invert overflow-y-auto max-h-[600px]">
-                    <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(treatmentPlan) }} />
+                    <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(partialReportHtml) }} />
+                    <p className="flex items-center gap-2 text-sm text-muted-foreground not-prose">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Receiving report...
+                    </p>
+                  </div>
+                ) : !treatmentPlan ? (
+                  <div className="text-center text-muted-foreground py-12">
+                    <p>Upload a panoramic X-ray and click Generate First-Consult Summary to view the report.</p>
                   </div>
+                ) : (
+                  <>
+                    <div 
+                      ref={treatmentPlanRef}
+                      className="prose prose-headings:font-semibold prose-headings:text-foreground
+                      prose-p:text-muted-foreground prose-p:leading-relaxed prose-p:my-3
+                      prose-li:text-muted-foreground prose-strong:text-foreground
+                      prose-ul:my-3 prose-ol:my-3 prose-li:my-1.5
+                      prose-h2:text-2xl prose-h3:text-xl prose-h2:mt-6 prose-h2:mb-3 prose-h3:mt-4 prose-h3:mb-2
+                      max-w-none dark:prose-invert overflow-y-auto max-h-[600px]">
+                      <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(treatmentPlan) }} />
+                    </div>
+                    {reportAnalysisId && (
+                      <div className="flex items-center gap-3 border-t mt-4 pt-4 text-sm text-muted-foreground">
+                        <span>{reportRating === null ? "How useful was this summary?" : "Thanks for your rating"}</span>
+                        <div className="flex gap-1">
+                          {[1, 2, 3, 4, 5].map((rating) => (
+                            <button
+                              key={rating}
+                              type="button"
+                              onClick={() => handleRateReport(rating)}
+                              disabled={reportRating !== null}
+                              aria-label={`Rate ${rating} out of 5`}
+                              className="disabled:cursor-default"
+                            >
+                              <Star
+                                className={`h-5 w-5 ${
+                                  reportRating !== null && rating <= reportRating
+                                    ? "fill-primary text-primary"
+                                    : "text-muted-foreground"
+                                }`}
+                              />
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </>
                 )}
               </CardContent>
             </Card>
@@ -656,6 +1033,56 @@ const OrthodonticAnalyzer = () => {
       </main>
       <Footer />
       
+      {/* PDF Page Selection Dialog */}
+      <PdfPagePicker
+        open={pdfSelection !== null}
+        fileName={pdfSelection?.file.name ?? ""}
+        pages={pdfSelection?.pages ?? []}
+        totalPages={pdfSelection?.totalPages ?? 0}
+        onSelect={selectPdfPage}
+        onCancel={cancelPdfSelection}
+      />
+
+      {/* Redaction Dialog */}
+      {redactingImage && (
+        <RedactionEditor
+          open
+          imageSrc={redactionFrameSrc}
+          imageWidth={redactingImage.width}
+          imageHeight={redactingImage.height}
+          initialRedactions={redactingImage.edits.redactions}
+          onSave={handleSaveRedactions}
+          onCancel={() => setRedactingImageId(null)}
+        />
+      )}
+
+      {/* Image Edit Dialog */}
+      {editingImage && (
+        <ImageEditor
+          open
+          baseSrc={editingImage.baseSrc}
+          initialEdits={editingImage.edits}
+          onSave={handleSaveEdits}
+          onCancel={() => setEditingImageId(null)}
+        />
+      )}
+
+      {/* Guided Camera Capture */}
+      <CameraCapture
+        open={showCamera}
+        onCapture={async (file, viewType) => (await handleAddFiles([file], viewType)) > 0}
+        onClose={() => setShowCamera(false)}
+      />
+
+      {/* Full-screen Image Viewer */}
+      <RadiographViewer
+        open={viewerIndex !== null}
+        images={caseImages}
+        initialIndex={viewerIndex ?? 0}
+        reportHtml={viewerWithReport ? treatmentPlan : undefined}
+        onClose={() => setViewerIndex(null)}
+      />
+
       {/* PDF Generation Dialog */}
       <Dialog open={showPdfDialog} onOpenChange={(open) => {
         if (!open && pdfSuccess) {
@@ -0,0 +1,626 @@
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import Navigation from "@/components/Navigation";
+import Footer from "@/components/Footer";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getSupabaseClient } from "@/integrations/supabase/safeClient";
+import type { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { IMAGE_VIEW_TYPE_CONFIG } from "@/config/imageViewTypes";
+import {
+  DEFAULT_PROMPT_LANGUAGE,
+  PROMPT_LANGUAGES,
+  PROMPT_PLACEHOLDERS,
+  renderPromptTemplate,
+} from "../../supabase/functions/_shared/promptTemplates.ts";
+
+type PromptTemplateRow = Tables<"prompt_templates">;
+type PromptExperimentRow = Tables<"prompt_experiments">;
+
+interface PromptDraft {
+  systemPrompt: string;
+  userPromptTemplate: string;
+  notes: string;
+}
+
+const EMPTY_DRAFT: PromptDraft = { systemPrompt: "", userPromptTemplate: "", notes: "" };
+
+// Select value for an arm that runs the version active when the experiment starts
+const ACTIVE_VERSION = "active";
+
+interface ExperimentDraft {
+  name: string;
+  armATemplate: string;
+  armAModel: string;
+  armBTemplate: string;
+  armBModel: string;
+  armBPercent: string;
+}
+
+const EMPTY_EXPERIMENT_DRAFT: ExperimentDraft = {
+  name: "",
+  armATemplate: ACTIVE_VERSION,
+  armAModel: "",
+  armBTemplate: ACTIVE_VERSION,
+  armBModel: "",
+  armBPercent: "50",
+};
+
+// A typical three-image case, so the preview reads like a real request
+const SAMPLE_VIEW_TYPES = ["panoramic", "lateral_ceph", "intraoral_frontal"] as const;
+const SAMPLE_PLACEHOLDER_VALUES = {
+  imageCount: String(SAMPLE_VIEW_TYPES.length),
+  imageList: SAMPLE_VIEW_TYPES
+    .map((viewType, index) => `• Image ${index + 1}: ${IMAGE_VIEW_TYPE_CONFIG[viewType].caption}`)
+    .join("\n"),
+};
+
+const PromptTemplates = () => {
+  const [templates, setTemplates] = useState<PromptTemplateRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [language, setLanguage] = useState(DEFAULT_PROMPT_LANGUAGE);
+  const [baseTemplateId, setBaseTemplateId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PromptDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [experiments, setExperiments] = useState<PromptExperimentRow[]>([]);
+  const [experimentDraft, setExperimentDraft] = useState<ExperimentDraft>(EMPTY_EXPERIMENT_DRAFT);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  const checkAuth = async () => {
+    try {
+      const supabase = await getSupabaseClient();
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+
+      const { data: roles, error } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", session.user.id)
+        .eq("role", "admin")
+        .single();
+
+      if (error || !roles) {
+        toast({
+          title: "Access Denied",
+          description: "You need admin privileges to access this page",
+          variant: "destructive",
+        });
+        navigate("/");
+        return;
+      }
+
+      setIsAdmin(true);
+      fetchTemplates();
+      fetchExperiments();
+    } catch (error) {
+      console.error("Error checking auth:", error);
+      toast({
+        title: "Error",
+        description: "Unable to verify your access right now. Please try again later.",
+        variant: "destructive",
+      });
+      navigate("/");
+    }
+  };
+
+  const fetchTemplates = async () => {
+    setIsLoading(true);
+    try {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("prompt_templates")
+        .select("*")
+        .order("version", { ascending: false });
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error("Error fetching prompt templates:", error);
+      toast({
+        title: "Error",
+        description: "Unable to load prompt templates right now.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchExperiments = async () => {
+    try {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("prompt_experiments")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setExperiments(data || []);
+    } catch (error) {
+      console.error("Error fetching prompt experiments:", error);
+      toast({
+        title: "Error",
+        description: "Unable to load prompt experiments right now.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const versions = useMemo(
+    () => templates.filter((template) => template.language === language),
+    [templates, language]
+  );
+  const activeTemplate = versions.find((template) => template.is_active);
+
+  // Start editing from the active version whenever the language (or the list) changes
+  useEffect(() => {
+    const base = versions.find((template) => template.is_active) ?? versions[0];
+    loadIntoDraft(base ?? null);
+  }, [versions]);
+
+  const loadIntoDraft = (template: PromptTemplateRow | null) => {
+    setBaseTemplateId(template?.id ?? null);
+    setDraft(
+      template
+        ? { systemPrompt: template.system_prompt, userPromptTemplate: template.user_prompt_template, notes: "" }
+        : EMPTY_DRAFT
+    );
+  };
+
+  const preview = useMemo(
+    () => renderPromptTemplate(draft.userPromptTemplate, SAMPLE_PLACEHOLDER_VALUES),
+    [draft.userPromptTemplate]
+  );
+
+  const baseTemplate = versions.find((template) => template.id === baseTemplateId);
+  const hasChanges = !baseTemplate
+    || draft.systemPrompt !== baseTemplate.system_prompt
+    || draft.userPromptTemplate !== baseTemplate.user_prompt_template;
+
+  // Saved versions are never edited; every change becomes the next version number
+  const handleSaveVersion = async () => {
+    if (!draft.systemPrompt.trim() || !draft.userPromptTemplate.trim()) {
+      toast({
+        title: "Prompt incomplete",
+        description: "Both the system prompt and the user prompt are required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const supabase = await getSupabaseClient();
+      const { data: { session } } = await supabase.auth.getSession();
+      const nextVersion = Math.max(0, ...versions.map((template) => template.version)) + 1;
+
+      const { error } = await supabase.from("prompt_templates").insert({
+        language,
+        version: nextVersion,
+        system_prompt: draft.systemPrompt,
+        user_prompt_template: draft.userPromptTemplate,
+        notes: draft.notes.trim() || null,
+        created_by: session?.user.id ?? null,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Version saved",
+        description: `Saved as version ${nextVersion}. Activate it to start using it for analyses.`,
+      });
+      await fetchTemplates();
+    } catch (error) {
+      console.error("Error saving prompt template:", error);
+      toast({
+        title: "Error",
+        description: "Unable to save this version. Someone may have saved one at the same time; reload and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleActivate = async (template: PromptTemplateRow) => {
+    try {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.rpc("activate_prompt_template", { _template_id: template.id });
+      if (error) throw error;
+
+      toast({
+        title: "Version activated",
+        description: `New ${PROMPT_LANGUAGES[template.language] ?? template.language} analyses will use version ${template.version}.`,
+      });
+      await fetchTemplates();
+    } catch (error) {
+      console.error("Error activating prompt template:", error);
+      toast({
+        title: "Error",
+        description: "Unable to activate this version right now.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const runningExperiment = experiments.find(
+    (experiment) => experiment.language === language && experiment.is_active
+  );
+
+  const describeArm = (templateId: string, model: string | null) => {
+    const template = templates.find((candidate) => candidate.id === templateId);
+    const prompt = template ? `Version ${template.version}` : "Unknown version";
+    return model ? `${prompt}, model ${model}` : prompt;
+  };
+
+  const handleStartExperiment = async () => {
+    const armBPercent = Number(experimentDraft.armBPercent);
+    // Arms are pinned to a version, so activating another one mid-experiment doesn't change what they run
+    const resolveTemplate = (value: string) => (value === ACTIVE_VERSION ? activeTemplate?.id : value);
+    const arms = {
+      arm_a_template_id: resolveTemplate(experimentDraft.armATemplate),
+      arm_a_model: experimentDraft.armAModel.trim() || null,
+      arm_b_template_id: resolveTemplate(experimentDraft.armBTemplate),
+      arm_b_model: experimentDraft.armBModel.trim() || null,
+    };
+
+    if (!arms.arm_a_template_id || !arms.arm_b_template_id) {
+      toast({
+        title: "No active version",
+        description: `Activate a ${PROMPT_LANGUAGES[language]} version, or pick a version for each arm.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!experimentDraft.name.trim()) {
+      toast({ title: "Experiment incomplete", description: "Give the experiment a name.", variant: "destructive" });
+      return;
+    }
+    if (!Number.isInteger(armBPercent) || armBPercent < 0 || armBPercent > 100) {
+      toast({
+        title: "Experiment incomplete",
+        description: "Arm B's share of traffic must be a whole percentage from 0 to 100.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (arms.arm_a_template_id === arms.arm_b_template_id && arms.arm_a_model === arms.arm_b_model) {
+      toast({
+        title: "Arms are identical",
+        description: "Choose a different prompt version or model for one of the arms.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const supabase = await getSupabaseClient();
+      const { data: { session } } = await supabase.auth.getSession();
+      const { error } = await supabase.from("prompt_experiments").insert({
+        name: experimentDraft.name.trim(),
+        language,
+        ...arms,
+        arm_b_percent: armBPercent,
+        created_by: session?.user.id ?? null,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Experiment started",
+        description: `${armBPercent}% of new ${PROMPT_LANGUAGES[language]} analyses will use arm B.`,
+      });
+      setExperimentDraft(EMPTY_EXPERIMENT_DRAFT);
+      await fetchExperiments();
+    } catch (error) {
+      console.error("Error starting prompt experiment:", error);
+      toast({
+        title: "Error",
+        description: "Unable to start this experiment right now.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEndExperiment = async (experiment: PromptExperimentRow) => {
+    try {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase
+        .from("prompt_experiments")
+        .update({ is_active: false, ended_at: new Date().toISOString() })
+        .eq("id", experiment.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Experiment ended",
+        description: "All analyses use the active version again. Results stay on the statistics page.",
+      });
+      await fetchExperiments();
+    } catch (error) {
+      console.error("Error ending prompt experiment:", error);
+      toast({
+        title: "Error",
+        description: "Unable to end this experiment right now.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderArmFields = (arm: "A" | "B") => {
+    const templateKey = arm === "A" ? "armATemplate" : "armBTemplate";
+    const modelKey = arm === "A" ? "armAModel" : "armBModel";
+    return (
+      <div className="space-y-2">
+        <Label>Arm {arm}</Label>
+        <Select
+          value={experimentDraft[templateKey]}
+          onValueChange={(value) => setExperimentDraft({ ...experimentDraft, [templateKey]: value })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ACTIVE_VERSION}>
+              {activeTemplate ? `Active version (${activeTemplate.version})` : "Active version"}
+            </SelectItem>
+            {versions.map((template) => (
+              <SelectItem key={template.id} value={template.id}>Version {template.version}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Model (blank for the configured model)"
+          value={experimentDraft[modelKey]}
+          onChange={(e) => setExperimentDraft({ ...experimentDraft, [modelKey]: e.target.value })}
+        />
+      </div>
+    );
+  };
+
+  if (isLoading || !isAdmin) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navigation />
+        <main className="flex-1 container py-8">
+          <Card>
+            <CardContent className="py-12 text-center">
+              {isLoading ? "Loading..." : "Checking permissions..."}
+            </CardContent>
+          </Card>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+      <main className="flex-1 container py-8 md:py-12">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-8">
+            <div className="flex justify-between items-center">
+              <div>
+                <h1 className="text-3xl md:text-4xl font-bold mb-2">
+                  Analysis Prompt Templates
+                </h1>
+                <p className="text-lg text-muted-foreground">
+                  Saved versions are immutable; edits are saved as a new version and take effect once activated
+                </p>
+              </div>
+              <Button onClick={() => navigate("/ortho-internal-stats")} variant="outline">
+                Back to Statistics
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-3">
+            <Card className="lg:col-span-1">
+              <CardHeader>
+                <CardTitle>Versions</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Select value={language} onValueChange={setLanguage}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PROMPT_LANGUAGES).map(([code, name]) => (
+                      <SelectItem key={code} value={code}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {!activeTemplate && (
+                  <p className="text-sm text-muted-foreground">
+                    No active {PROMPT_LANGUAGES[language]} version; analyses in this language use the English prompt.
+                  </p>
+                )}
+
+                {versions.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No versions saved yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {versions.map((template) => (
+                      <div
+                        key={template.id}
+                        className={`border rounded-lg p-3 ${template.id === baseTemplateId ? "border-primary" : ""}`}
+                      >
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="font-medium">
+                            Version {template.version}
+                            {template.is_active && <Badge className="ml-2">Active</Badge>}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(template.created_at).toLocaleDateString()}
+                          </span>
+                        </div>
+                        {template.notes && (
+                          <p className="text-sm text-muted-foreground mb-2">{template.notes}</p>
+                        )}
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" onClick={() => loadIntoDraft(template)}>
+                            Edit from here
+                          </Button>
+                          {!template.is_active && (
+                            <Button size="sm" variant="outline" onClick={() => handleActivate(template)}>
+                              Activate
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>
+                  {baseTemplate ? `New version based on version ${baseTemplate.version}` : "New version"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="system-prompt">System prompt</Label>
+                  <Textarea
+                    id="system-prompt"
+                    rows={12}
+                    className="font-mono text-xs"
+                    value={draft.systemPrompt}
+                    onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="user-prompt">User prompt</Label>
+                  <Textarea
+                    id="user-prompt"
+                    rows={8}
+                    className="font-mono text-xs"
+                    value={draft.userPromptTemplate}
+                    onChange={(e) => setDraft({ ...draft, userPromptTemplate: e.target.value })}
+                  />
+                  <ul className="text-xs text-muted-foreground space-y-1">
+                    {Object.entries(PROMPT_PLACEHOLDERS).map(([name, description]) => (
+                      <li key={name}>
+                        <code>{`{{${name}}}`}</code> — {description}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Preview (sample three-image case)</Label>
+                  <pre className="whitespace-pre-wrap text-xs bg-muted rounded-lg p-4">{preview}</pre>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="notes">What changed</Label>
+                  <Input
+                    id="notes"
+                    placeholder="e.g. Ask for crowding in millimetres"
+                    value={draft.notes}
+                    onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                  />
+                </div>
+
+                <Button onClick={handleSaveVersion} disabled={isSaving || !hasChanges}>
+                  {isSaving ? "Saving..." : "Save as New Version"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <CardTitle>{PROMPT_LANGUAGES[language]} Experiment</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {runningExperiment ? (
+                  <div className="space-y-4">
+                    <div className="grid gap-4 md:grid-cols-3 text-sm">
+                      <div>
+                        <div className="font-medium">{runningExperiment.name}</div>
+                        <div className="text-muted-foreground">
+                          Started {new Date(runningExperiment.created_at).toLocaleDateString()}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="font-medium">Arm A ({100 - runningExperiment.arm_b_percent}%)</div>
+                        <div className="text-muted-foreground">
+                          {describeArm(runningExperiment.arm_a_template_id, runningExperiment.arm_a_model)}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="font-medium">Arm B ({runningExperiment.arm_b_percent}%)</div>
+                        <div className="text-muted-foreground">
+                          {describeArm(runningExperiment.arm_b_template_id, runningExperiment.arm_b_model)}
+                        </div>
+                      </div>
+                    </div>
+                    <Button variant="outline" onClick={() => handleEndExperiment(runningExperiment)}>
+                      End Experiment
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      Split {PROMPT_LANGUAGES[language]} analyses between two prompt versions or models.
+                      Each browser session stays in one arm, and results appear on the statistics page.
+                    </p>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="experiment-name">Name</Label>
+                        <Input
+                          id="experiment-name"
+                          placeholder="e.g. Shorter summary wording"
+                          value={experimentDraft.name}
+                          onChange={(e) => setExperimentDraft({ ...experimentDraft, name: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="experiment-split">Traffic to arm B (%)</Label>
+                        <Input
+                          id="experiment-split"
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={experimentDraft.armBPercent}
+                          onChange={(e) => setExperimentDraft({ ...experimentDraft, armBPercent: e.target.value })}
+                        />
+                      </div>
+                      {renderArmFields("A")}
+                      {renderArmFields("B")}
+                    </div>
+                    <Button onClick={handleStartExperiment}>Start Experiment</Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default PromptTemplates;
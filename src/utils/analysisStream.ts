@@ -0,0 +1,234 @@
+import { readServerSentEvents } from "../../supabase/functions/_shared/serverSentEvents.ts";
+import {
+  ANALYSIS_FAILURE_CODES,
+  AnalysisFailureBody,
+  AnalysisFailureCode,
+  AnalysisRateLimitBody,
+  AnalysisRateLimitType,
+  AnalysisRequestErrorBody,
+  AnalysisRequestErrorCode,
+} from "../../supabase/functions/_shared/analysisRequest.ts";
+import { PromptVersion, REPORT_SECTIONS } from "@/utils/reportRenderer";
+
+/**
+ * Client side of the analysis stream. The edge function sends `stage`,
+ * `section`, `report` and `error` events; the local mock emits the same
+ * stage and section events so both paths drive the page identically.
+ */
+
+export type AnalysisStreamEvent =
+  | { type: "stage"; stage: "uploading" | "received" | "model_started" | "finalizing" }
+  | { type: "section"; key: string; value: unknown; index: number; total: number };
+
+// Progress bar position and caption for each event; sections fill 15–90%
+export const describeAnalysisProgress = (event: AnalysisStreamEvent): { percent: number; label: string } => {
+  if (event.type === "section") {
+    const total = event.total || REPORT_SECTIONS.length;
+    return {
+      percent: Math.round(15 + (Math.min(event.index, total) / total) * 75),
+      label: `Section ${event.index} of ${total} received`,
+    };
+  }
+
+  switch (event.stage) {
+    case "uploading":
+      return { percent: 5, label: "Uploading images..." };
+    case "received":
+      return { percent: 10, label: "Images received" };
+    case "model_started":
+      return { percent: 15, label: "Model started" };
+    case "finalizing":
+      return { percent: 95, label: "Finalizing report..." };
+  }
+};
+
+/**
+ * Reads an analysis stream to the end and returns the (still unvalidated)
+ * report with the prompt version that produced it and the analysis id a
+ * rating refers to. An `error` event is
+ * rethrown with the server's message.
+ */
+export const readAnalysisStream = async (
+  response: Response,
+  onEvent: (event: AnalysisStreamEvent) => void
+): Promise<{ report: unknown; prompt?: PromptVersion; analysisId?: string }> => {
+  let report: unknown;
+  let prompt: PromptVersion | undefined;
+  let analysisId: string | undefined;
+  let failure: {
+    error?: string;
+    status?: number;
+    code?: string;
+    limit?: AnalysisRateLimitType;
+    retryAfterSeconds?: number;
+  } | null = null;
+
+  await readServerSentEvents(response, (event, data) => {
+    const payload = JSON.parse(data);
+    if (event === "stage") {
+      onEvent({ type: "stage", stage: payload.stage });
+    } else if (event === "section") {
+      onEvent({ type: "section", key: payload.key, value: payload.value, index: payload.index, total: payload.total });
+    } else if (event === "report") {
+      report = payload.report;
+      prompt = payload.prompt;
+      analysisId = payload.analysisId;
+    } else if (event === "error") {
+      failure = payload;
+    }
+  });
+
+  if (failure) {
+    // An upstream rate limit can still surface after the stream has started
+    if (failure.status === 429) {
+      throw new AnalysisRateLimitError({
+        error: failure.error || "Rate limited",
+        code: "rate_limited",
+        limit: failure.limit ?? "upstream",
+        retryAfterSeconds: failure.retryAfterSeconds,
+      });
+    }
+    throw toFailedError(failure);
+  }
+  if (report === undefined) throw new Error("Analysis stream ended before the report was received");
+  return { report, prompt, analysisId };
+};
+
+// The analysis failed after the request was accepted; code says why
+export class AnalysisFailedError extends Error {
+  code: AnalysisFailureCode;
+
+  constructor({ error, code }: AnalysisFailureBody) {
+    super(error);
+    this.name = "AnalysisFailedError";
+    this.code = code;
+  }
+}
+
+const isFailureCode = (code: unknown): code is AnalysisFailureCode =>
+  typeof code === "string" && (ANALYSIS_FAILURE_CODES as readonly string[]).includes(code);
+
+// Unknown or missing codes (e.g. from an older deployment) are treated as internal errors
+const toFailedError = ({ error, code }: { error?: string; code?: string }) =>
+  new AnalysisFailedError({ error: error || "Analysis failed", code: isFailureCode(code) ? code : "internal" });
+
+// What the clinician is told for each kind of failure
+const FAILURE_MESSAGES: Record<AnalysisFailureCode, { title: string; description: string }> = {
+  invalid_request: {
+    title: "Analysis failed",
+    description: "The analysis request was not accepted. Please reload the page and try again.",
+  },
+  invalid_image: {
+    title: "Image could not be read",
+    description: "The model could not read one of the images. Re-export it as JPEG or PNG, or remove it, and try again.",
+  },
+  auth_required: {
+    title: "Sign in required",
+    description: "Sign in with your clinician account to run an analysis.",
+  },
+  rate_limited: {
+    title: "Analysis limit reached",
+    description: "Too many analyses right now. Please wait a few minutes and try again.",
+  },
+  content_refused: {
+    title: "Analysis declined",
+    description: "The model declined to analyze these images. Check that they are orthodontic images and remove anything else.",
+  },
+  timeout: {
+    title: "Analysis timed out",
+    description: "The model took too long to respond. Please try again; fewer images may help.",
+  },
+  upstream_down: {
+    title: "Analysis service unavailable",
+    description: "The analysis service is having problems. Please try again in a few minutes.",
+  },
+  invalid_output: {
+    title: "Analysis incomplete",
+    description: "The model returned an incomplete report. Please try again.",
+  },
+  internal: {
+    title: "Analysis failed",
+    description: "There was an error analyzing your image. Please try again.",
+  },
+};
+
+export const describeAnalysisFailure = (code: AnalysisFailureCode) => FAILURE_MESSAGES[code];
+
+// The edge function rejected the request (400) before anything reached the model
+export class AnalysisRequestError extends Error {
+  code: AnalysisRequestErrorCode;
+  imageIndex?: number;
+
+  constructor({ error, code, imageIndex }: AnalysisRequestErrorBody) {
+    super(error);
+    this.name = "AnalysisRequestError";
+    this.code = code;
+    this.imageIndex = imageIndex;
+  }
+}
+
+// A rate limit or the daily spend cap was hit; retryAfterSeconds says when to try again
+export class AnalysisRateLimitError extends Error {
+  limit: AnalysisRateLimitType;
+  retryAfterSeconds?: number;
+
+  constructor({ error, limit, retryAfterSeconds }: AnalysisRateLimitBody) {
+    super(error);
+    this.name = "AnalysisRateLimitError";
+    this.limit = limit;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// Clinician-only mode is on and the caller isn't signed in
+export class AnalysisAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnalysisAuthError";
+  }
+}
+
+/**
+ * Unwraps a functions.invoke error into one of the typed errors above, from
+ * the status and the JSON body of the function's response. Errors without
+ * a response (e.g. network failures) are returned unchanged.
+ */
+export const toAnalysisError = async (error: unknown): Promise<unknown> => {
+  const context = (error as { context?: unknown } | null)?.context;
+  if (!(context instanceof Response)) {
+    return error;
+  }
+
+  // An AnalysisRequestErrorBody, AnalysisRateLimitBody or AnalysisFailureBody, depending on the status
+  let body: { error?: string; code?: string; imageIndex?: number; limit?: AnalysisRateLimitType; retryAfterSeconds?: number } = {};
+  try {
+    body = await context.json();
+  } catch {
+    // Not a JSON body; the status and headers are still usable
+  }
+
+  if (context.status === 401) {
+    return new AnalysisAuthError(body.error || "Sign in to run an analysis");
+  }
+  if (context.status === 429) {
+    const retryAfterHeader = Number(context.headers.get("Retry-After"));
+    return new AnalysisRateLimitError({
+      error: body.error || "Rate limited",
+      code: "rate_limited",
+      limit: body.limit ?? "upstream",
+      retryAfterSeconds: body.retryAfterSeconds ?? (retryAfterHeader > 0 ? retryAfterHeader : undefined),
+    });
+  }
+  if (context.status === 400 && body.error && body.code) {
+    return new AnalysisRequestError({ error: body.error, code: body.code as AnalysisRequestErrorCode, imageIndex: body.imageIndex });
+  }
+  return toFailedError(body);
+};
+
+// "in 5 minutes", "in 2 hours" — for telling the clinician when to retry
+export const formatRetryAfter = (seconds: number): string => {
+  if (seconds < 60) return `in ${Math.max(1, Math.ceil(seconds))} seconds`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 120) return `in ${minutes} minute${minutes === 1 ? "" : "s"}`;
+  return `in ${Math.ceil(minutes / 60)} hours`;
+};
@@ -0,0 +1,523 @@
+/**
+ * Minimal DICOM Part 10 reader for single radiographs.
+ *
+ * Supports little-endian uncompressed (implicit and explicit VR) and
+ * JPEG baseline transfer syntaxes. Only the attributes needed to render
+ * the image are kept; patient-identifying attributes are dropped while
+ * parsing and the output is a freshly encoded PNG, so no DICOM header
+ * data ever leaves the browser.
+ */
+
+const PREAMBLE_LENGTH = 128;
+
+const TRANSFER_SYNTAX = {
+  implicitLittle: "1.2.840.10008.1.2",
+  explicitLittle: "1.2.840.10008.1.2.1",
+  explicitBig: "1.2.840.10008.1.2.2",
+  deflated: "1.2.840.10008.1.2.1.99",
+  jpegBaseline: "1.2.840.10008.1.2.4.50",
+};
+
+const UNDEFINED_LENGTH = 0xffffffff;
+
+// VRs whose explicit encoding uses 2 reserved bytes and a 4-byte length
+const LONG_VRS = new Set(["OB", "OD", "OF", "OL", "OV", "OW", "SQ", "SV", "UC", "UN", "UR", "UT", "UV"]);
+
+// Tag values are stored as (group << 16) | element
+const tag = (group: number, element: number) => ((group << 16) | element) >>> 0;
+
+const TAGS = {
+  transferSyntaxUid: tag(0x0002, 0x0010),
+  modality: tag(0x0008, 0x0060),
+  samplesPerPixel: tag(0x0028, 0x0002),
+  photometricInterpretation: tag(0x0028, 0x0004),
+  planarConfiguration: tag(0x0028, 0x0006),
+  numberOfFrames: tag(0x0028, 0x0008),
+  rows: tag(0x0028, 0x0010),
+  columns: tag(0x0028, 0x0011),
+  bitsAllocated: tag(0x0028, 0x0100),
+  bitsStored: tag(0x0028, 0x0101),
+  pixelRepresentation: tag(0x0028, 0x0103),
+  burnedInAnnotation: tag(0x0028, 0x0301),
+  windowCenter: tag(0x0028, 0x1050),
+  windowWidth: tag(0x0028, 0x1051),
+  rescaleIntercept: tag(0x0028, 0x1052),
+  rescaleSlope: tag(0x0028, 0x1053),
+  pixelData: tag(0x7fe0, 0x0010),
+  item: tag(0xfffe, 0xe000),
+  itemDelimitation: tag(0xfffe, 0xe00d),
+  sequenceDelimitation: tag(0xfffe, 0xe0dd),
+};
+
+// VRs of the attributes we read, needed for implicit VR files
+const IMPLICIT_VRS: Record<number, string> = {
+  [TAGS.transferSyntaxUid]: "UI",
+  [TAGS.modality]: "CS",
+  [TAGS.samplesPerPixel]: "US",
+  [TAGS.photometricInterpretation]: "CS",
+  [TAGS.planarConfiguration]: "US",
+  [TAGS.numberOfFrames]: "IS",
+  [TAGS.rows]: "US",
+  [TAGS.columns]: "US",
+  [TAGS.bitsAllocated]: "US",
+  [TAGS.bitsStored]: "US",
+  [TAGS.pixelRepresentation]: "US",
+  [TAGS.burnedInAnnotation]: "CS",
+  [TAGS.windowCenter]: "DS",
+  [TAGS.windowWidth]: "DS",
+  [TAGS.rescaleIntercept]: "DS",
+  [TAGS.rescaleSlope]: "DS",
+};
+
+// Attributes (outside the Patient group) that can identify a patient, clinic or operator
+const PHI_TAGS: Record<number, string> = {
+  [tag(0x0008, 0x0020)]: "StudyDate",
+  [tag(0x0008, 0x0021)]: "SeriesDate",
+  [tag(0x0008, 0x0022)]: "AcquisitionDate",
+  [tag(0x0008, 0x0023)]: "ContentDate",
+  [tag(0x0008, 0x0030)]: "StudyTime",
+  [tag(0x0008, 0x0050)]: "AccessionNumber",
+  [tag(0x0008, 0x0080)]: "InstitutionName",
+  [tag(0x0008, 0x0081)]: "InstitutionAddress",
+  [tag(0x0008, 0x0090)]: "ReferringPhysicianName",
+  [tag(0x0008, 0x0092)]: "ReferringPhysicianAddress",
+  [tag(0x0008, 0x0094)]: "ReferringPhysicianTelephoneNumbers",
+  [tag(0x0008, 0x1010)]: "StationName",
+  [tag(0x0008, 0x1030)]: "StudyDescription",
+  [tag(0x0008, 0x1040)]: "InstitutionalDepartmentName",
+  [tag(0x0008, 0x1048)]: "PhysiciansOfRecord",
+  [tag(0x0008, 0x1050)]: "PerformingPhysicianName",
+  [tag(0x0008, 0x1060)]: "NameOfPhysiciansReadingStudy",
+  [tag(0x0008, 0x1070)]: "OperatorsName",
+  [tag(0x0018, 0x1000)]: "DeviceSerialNumber",
+  [tag(0x0020, 0x000d)]: "StudyInstanceUID",
+  [tag(0x0020, 0x000e)]: "SeriesInstanceUID",
+  [tag(0x0020, 0x0010)]: "StudyID",
+  [tag(0x0032, 0x1032)]: "RequestingPhysician",
+  [tag(0x0040, 0xa123)]: "PersonName",
+};
+
+const PATIENT_GROUP = 0x0010;
+
+const PATIENT_TAG_NAMES: Record<number, string> = {
+  [tag(0x0010, 0x0010)]: "PatientName",
+  [tag(0x0010, 0x0020)]: "PatientID",
+  [tag(0x0010, 0x0030)]: "PatientBirthDate",
+  [tag(0x0010, 0x0040)]: "PatientSex",
+  [tag(0x0010, 0x1000)]: "OtherPatientIDs",
+  [tag(0x0010, 0x1001)]: "OtherPatientNames",
+  [tag(0x0010, 0x1010)]: "PatientAge",
+  [tag(0x0010, 0x1040)]: "PatientAddress",
+  [tag(0x0010, 0x2154)]: "PatientTelephoneNumbers",
+};
+
+const isPhiTag = (tagValue: number): boolean =>
+  tagValue >>> 16 === PATIENT_GROUP || tagValue in PHI_TAGS;
+
+const phiTagName = (tagValue: number): string => {
+  const name = PATIENT_TAG_NAMES[tagValue] ?? PHI_TAGS[tagValue];
+  if (name) return name;
+  const hex = (n: number) => n.toString(16).toUpperCase().padStart(4, "0");
+  return `(${hex(tagValue >>> 16)},${hex(tagValue & 0xffff)})`;
+};
+
+interface DicomElement {
+  tag: number;
+  vr: string;
+  length: number;
+  valueOffset: number;
+}
+
+interface ParsedDataset {
+  transferSyntaxUid: string;
+  values: Map<number, DicomElement>;
+  pixelData?: DicomElement;
+  strippedTags: string[];
+}
+
+export interface DicomImageInfo {
+  modality?: string;
+  rows: number;
+  columns: number;
+  bitsStored: number;
+  photometricInterpretation: string;
+  transferSyntaxUid: string;
+  windowCenter?: number;
+  windowWidth?: number;
+  burnedInAnnotation: boolean;
+}
+
+export interface DicomConversionResult {
+  file: File;
+  info: DicomImageInfo;
+  // Names of patient-identifying attributes that were discarded
+  strippedTags: string[];
+}
+
+class DicomReader {
+  private view: DataView;
+  private bytes: Uint8Array;
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+    this.bytes = new Uint8Array(buffer);
+  }
+
+  get length() {
+    return this.bytes.length;
+  }
+
+  readString(offset: number, length: number): string {
+    let result = "";
+    for (let i = 0; i < length; i++) {
+      const code = this.bytes[offset + i];
+      if (code === 0) break;
+      result += String.fromCharCode(code);
+    }
+    // DICOM pads values with spaces or NULs
+    return result.trim();
+  }
+
+  readElement(offset: number, explicitVr: boolean): DicomElement & { next: number } {
+    const group = this.view.getUint16(offset, true);
+    const element = this.view.getUint16(offset + 2, true);
+    const tagValue = tag(group, element);
+
+    // Item and delimitation tags never carry a VR
+    if (group === 0xfffe) {
+      const length = this.view.getUint32(offset + 4, true);
+      return { tag: tagValue, vr: "", length, valueOffset: offset + 8, next: offset + 8 };
+    }
+
+    if (explicitVr) {
+      const vr = String.fromCharCode(this.bytes[offset + 4], this.bytes[offset + 5]);
+      if (LONG_VRS.has(vr)) {
+        const length = this.view.getUint32(offset + 8, true);
+        return { tag: tagValue, vr, length, valueOffset: offset + 12, next: offset + 12 };
+      }
+      const length = this.view.getUint16(offset + 6, true);
+      return { tag: tagValue, vr, length, valueOffset: offset + 8, next: offset + 8 };
+    }
+
+    const length = this.view.getUint32(offset + 4, true);
+    const vr = IMPLICIT_VRS[tagValue] ?? (tagValue === TAGS.pixelData ? "OW" : "UN");
+    return { tag: tagValue, vr, length, valueOffset: offset + 8, next: offset + 8 };
+  }
+
+  // Skips a sequence or item of undefined length, returning the offset after its delimiter
+  skipUndefinedLength(offset: number, explicitVr: boolean, endTag: number): number {
+    let position = offset;
+    while (position + 8 <= this.length) {
+      const element = this.readElement(position, explicitVr);
+      if (element.tag === endTag) {
+        return element.next;
+      }
+      if (element.tag === TAGS.item) {
+        position = element.length === UNDEFINED_LENGTH
+          ? this.skipUndefinedLength(element.next, explicitVr, TAGS.itemDelimitation)
+          : element.next + element.length;
+        continue;
+      }
+      position = element.length === UNDEFINED_LENGTH
+        ? this.skipUndefinedLength(element.next, explicitVr, TAGS.sequenceDelimitation)
+        : element.next + element.length;
+    }
+    throw new Error("DICOM sequence is not terminated");
+  }
+
+  readUint16(element: DicomElement): number {
+    return this.view.getUint16(element.valueOffset, true);
+  }
+
+  readNumberString(element: DicomElement): number | undefined {
+    // Multi-valued DS/IS attributes are backslash-separated; use the first value
+    const value = parseFloat(this.readString(element.valueOffset, element.length).split("\\")[0]);
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  // Returns the first frame of encapsulated (compressed) pixel data
+  readFirstFragmentedFrame(pixelData: DicomElement): Uint8Array {
+    const fragments: Uint8Array[] = [];
+    let position = pixelData.valueOffset;
+    let isOffsetTable = true;
+
+    while (position + 8 <= this.length) {
+      const item = this.readElement(position, true);
+      if (item.tag === TAGS.sequenceDelimitation) break;
+      if (item.tag !== TAGS.item) {
+        throw new Error("Malformed encapsulated pixel data");
+      }
+      const fragment = this.bytes.subarray(item.next, item.next + item.length);
+      if (isOffsetTable) {
+        isOffsetTable = false;
+      } else {
+        // A new JPEG start-of-image marker starts the next frame
+        if (fragments.length > 0 && fragment[0] === 0xff && fragment[1] === 0xd8) break;
+        fragments.push(fragment);
+      }
+      position = item.next + item.length;
+    }
+
+    const totalLength = fragments.reduce((sum, fragment) => sum + fragment.length, 0);
+    const frame = new Uint8Array(totalLength);
+    let offset = 0;
+    for (const fragment of fragments) {
+      frame.set(fragment, offset);
+      offset += fragment.length;
+    }
+    return frame;
+  }
+
+  subarray(start: number, end: number): Uint8Array {
+    return this.bytes.subarray(start, end);
+  }
+
+  getView(): DataView {
+    return this.view;
+  }
+}
+
+const parseDataset = (reader: DicomReader): ParsedDataset => {
+  if (reader.length < PREAMBLE_LENGTH + 4 || reader.readString(PREAMBLE_LENGTH, 4) !== "DICM") {
+    throw new Error("This file is not a DICOM Part 10 file");
+  }
+
+  const values = new Map<number, DicomElement>();
+  const strippedTags: string[] = [];
+  let pixelData: DicomElement | undefined;
+  let transferSyntaxUid = TRANSFER_SYNTAX.explicitLittle;
+
+  let position = PREAMBLE_LENGTH + 4;
+  while (position + 8 <= reader.length) {
+    // The file meta group is always explicit VR; the dataset follows the transfer syntax
+    const inMetaGroup = reader.getView().getUint16(position, true) === 0x0002;
+    const explicitVr = inMetaGroup || transferSyntaxUid !== TRANSFER_SYNTAX.implicitLittle;
+    const element = reader.readElement(position, explicitVr);
+
+    if (element.tag === TAGS.transferSyntaxUid) {
+      transferSyntaxUid = reader.readString(element.valueOffset, element.length);
+    }
+
+    if (element.tag === TAGS.pixelData) {
+      pixelData = element;
+      break;
+    }
+
+    if (isPhiTag(element.tag)) {
+      strippedTags.push(phiTagName(element.tag));
+    } else if (element.tag in IMPLICIT_VRS) {
+      values.set(element.tag, element);
+    }
+
+    position = element.length === UNDEFINED_LENGTH
+      ? reader.skipUndefinedLength(element.next, explicitVr, TAGS.sequenceDelimitation)
+      : element.next + element.length;
+  }
+
+  return { transferSyntaxUid, values, pixelData, strippedTags };
+};
+
+/**
+ * Applies the DICOM linear VOI window, mapping a stored value to 0-255
+ */
+const applyWindow = (value: number, center: number, width: number): number => {
+  if (width <= 1) return value < center ? 0 : 255;
+  const lower = center - 0.5 - (width - 1) / 2;
+  const upper = center - 0.5 + (width - 1) / 2;
+  if (value <= lower) return 0;
+  if (value > upper) return 255;
+  return Math.round(((value - (center - 0.5)) / (width - 1) + 0.5) * 255);
+};
+
+const readStoredPixels = (
+  reader: DicomReader,
+  pixelData: DicomElement,
+  count: number,
+  bitsAllocated: number,
+  bitsStored: number,
+  signed: boolean
+): Float32Array => {
+  const view = reader.getView();
+  const pixels = new Float32Array(count);
+  const bytesPerSample = bitsAllocated / 8;
+  if (pixelData.valueOffset + count * bytesPerSample > reader.length) {
+    throw new Error("DICOM pixel data is truncated");
+  }
+
+  const mask = bitsStored >= 32 ? 0xffffffff : (1 << bitsStored) - 1;
+  const signBit = 1 << (bitsStored - 1);
+
+  for (let i = 0; i < count; i++) {
+    const offset = pixelData.valueOffset + i * bytesPerSample;
+    let raw = bitsAllocated === 8 ? view.getUint8(offset) : view.getUint16(offset, true);
+    raw &= mask;
+    pixels[i] = signed && raw & signBit ? raw - (mask + 1) : raw;
+  }
+  return pixels;
+};
+
+const decodeJpegFrame = async (frame: Uint8Array, columns: number, rows: number): Promise<ImageData> => {
+  const bitmap = await createImageBitmap(new Blob([frame], { type: "image/jpeg" }));
+  const canvas = document.createElement("canvas");
+  canvas.width = columns || bitmap.width;
+  canvas.height = rows || bitmap.height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Your browser does not support image decoding");
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const canvasToPngBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Unable to encode DICOM image"))),
+      "image/png"
+    );
+  });
+
+/**
+ * Decodes the first frame of a DICOM file, applies its stored window
+ * center/width and returns it as a PNG with all header data removed.
+ */
+export const convertDicomToPng = async (file: File): Promise<DicomConversionResult> => {
+  const reader = new DicomReader(await file.arrayBuffer());
+
+  let dataset: ParsedDataset;
+  try {
+    dataset = parseDataset(reader);
+  } catch (error) {
+    console.error("Error parsing DICOM file:", error);
+    throw new Error("This DICOM file could not be read. It may be corrupted.");
+  }
+
+  const { transferSyntaxUid, values, pixelData, strippedTags } = dataset;
+  if (!pixelData) {
+    throw new Error("This DICOM file does not contain an image");
+  }
+
+  const isJpegBaseline = transferSyntaxUid === TRANSFER_SYNTAX.jpegBaseline;
+  const isUncompressed =
+    transferSyntaxUid === TRANSFER_SYNTAX.implicitLittle ||
+    transferSyntaxUid === TRANSFER_SYNTAX.explicitLittle;
+  if (!isJpegBaseline && !isUncompressed) {
+    throw new Error(
+      "This DICOM compression format is not supported. Please export it uncompressed or as JPEG baseline."
+    );
+  }
+
+  const getUint16 = (tagValue: number, fallback: number) => {
+    const element = values.get(tagValue);
+    return element && element.length >= 2 ? reader.readUint16(element) : fallback;
+  };
+  const getNumber = (tagValue: number) => {
+    const element = values.get(tagValue);
+    return element ? reader.readNumberString(element) : undefined;
+  };
+  const getString = (tagValue: number) => {
+    const element = values.get(tagValue);
+    return element ? reader.readString(element.valueOffset, element.length) : undefined;
+  };
+
+  const rows = getUint16(TAGS.rows, 0);
+  const columns = getUint16(TAGS.columns, 0);
+  const samplesPerPixel = getUint16(TAGS.samplesPerPixel, 1);
+  const planarConfiguration = getUint16(TAGS.planarConfiguration, 0);
+  const bitsAllocated = getUint16(TAGS.bitsAllocated, 8);
+  const bitsStored = getUint16(TAGS.bitsStored, bitsAllocated);
+  const signed = getUint16(TAGS.pixelRepresentation, 0) === 1;
+  const photometricInterpretation = getString(TAGS.photometricInterpretation) ?? "MONOCHROME2";
+  const slope = getNumber(TAGS.rescaleSlope) ?? 1;
+  const intercept = getNumber(TAGS.rescaleIntercept) ?? 0;
+  const windowCenter = getNumber(TAGS.windowCenter);
+  const windowWidth = getNumber(TAGS.windowWidth);
+  const isMonochrome = samplesPerPixel === 1;
+  const invert = photometricInterpretation === "MONOCHROME1";
+
+  if (isUncompressed && (!rows || !columns)) {
+    throw new Error("This DICOM file is missing its image dimensions");
+  }
+  if (isUncompressed && bitsAllocated !== 8 && bitsAllocated !== 16) {
+    throw new Error(`DICOM images with ${bitsAllocated}-bit pixels are not supported`);
+  }
+
+  let output: ImageData;
+
+  if (isJpegBaseline) {
+    output = await decodeJpegFrame(reader.readFirstFragmentedFrame(pixelData), columns, rows);
+    // JPEG baseline is 8-bit, so the stored window applies directly to the decoded gray levels
+    if (isMonochrome && (windowCenter !== undefined || invert)) {
+      const data = output.data;
+      for (let i = 0; i < data.length; i += 4) {
+        const modalityValue = data[i] * slope + intercept;
+        let gray = windowCenter !== undefined && windowWidth !== undefined
+          ? applyWindow(modalityValue, windowCenter, windowWidth)
+          : data[i];
+        if (invert) gray = 255 - gray;
+        data[i] = data[i + 1] = data[i + 2] = gray;
+      }
+    }
+  } else {
+    const pixelCount = rows * columns;
+    const stored = readStoredPixels(reader, pixelData, pixelCount * samplesPerPixel, bitsAllocated, bitsStored, signed);
+    output = new ImageData(columns, rows);
+    const data = output.data;
+
+    if (isMonochrome) {
+      // Modality LUT, then the stored VOI window (or the full range when none is stored)
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = 0; i < pixelCount; i++) {
+        stored[i] = stored[i] * slope + intercept;
+        if (stored[i] < min) min = stored[i];
+        if (stored[i] > max) max = stored[i];
+      }
+      const center = windowCenter ?? (min + max) / 2;
+      const width = windowWidth ?? Math.max(max - min, 1);
+
+      for (let i = 0; i < pixelCount; i++) {
+        let gray = applyWindow(stored[i], center, width);
+        if (invert) gray = 255 - gray;
+        data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = gray;
+        data[i * 4 + 3] = 255;
+      }
+    } else {
+      if (bitsAllocated !== 8) {
+        throw new Error("Only 8-bit color DICOM images are supported");
+      }
+      for (let i = 0; i < pixelCount; i++) {
+        for (let channel = 0; channel < 3; channel++) {
+          const index = planarConfiguration === 0 ? i * 3 + channel : channel * pixelCount + i;
+          data[i * 4 + channel] = stored[index];
+        }
+        data[i * 4 + 3] = 255;
+      }
+    }
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = output.width;
+  canvas.height = output.height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Your browser does not support image rendering");
+  context.putImageData(output, 0, 0);
+
+  const blob = await canvasToPngBlob(canvas);
+  const pngName = file.name.replace(/\.(dcm|dicom)$/i, "") + ".png";
+
+  return {
+    file: new File([blob], pngName, { type: "image/png" }),
+    info: {
+      modality: getString(TAGS.modality),
+      rows: output.height,
+      columns: output.width,
+      bitsStored,
+      photometricInterpretation,
+      transferSyntaxUid,
+      windowCenter,
+      windowWidth,
+      burnedInAnnotation: getString(TAGS.burnedInAnnotation) === "YES",
+    },
+    strippedTags,
+  };
+};
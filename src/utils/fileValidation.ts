@@ -15,11 +15,16 @@ export const pdfFileSchema = z.object({
 export const imageFileSchema = z.object({
   name: z.string(),
   size: z.number().max(MAX_FILE_SIZE, "File size must be less than 10MB"),
-  type: z.enum(["image/jpeg", "image/jpg", "image/png"], {
-    errorMap: () => ({ message: "Only JPEG and PNG images are allowed" }),
+  type: z.enum(["image/jpeg", "image/jpg", "image/png", "image/heic", "image/heif"], {
+    errorMap: () => ({ message: "Only JPEG, PNG and HEIC images are allowed" }),
   }),
 });
 
+export const dicomFileSchema = z.object({
+  name: z.string(),
+  size: z.number().max(MAX_FILE_SIZE, "File size must be less than 10MB"),
+});
+
 // Magic numbers (file signatures) for validation
 const FILE_SIGNATURES: Record<string, number[][]> = {
   pdf: [[0x25, 0x50, 0x44, 0x46]], // %PDF
@@ -27,13 +32,46 @@ const FILE_SIGNATURES: Record<string, number[][]> = {
   png: [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
 };
 
+// HEIC/HEIF files are ISO-BMFF containers: bytes 4-7 hold "ftyp" and
+// bytes 8-11 hold the major brand identifying the HEIF flavour
+const HEIF_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "hevm", "hevs", "mif1", "msf1"];
+
+const isHeifHeader = (arr: Uint8Array): boolean => {
+  if (arr.length < 12) return false;
+  const boxType = String.fromCharCode(...arr.slice(4, 8));
+  const brand = String.fromCharCode(...arr.slice(8, 12));
+  return boxType === "ftyp" && HEIF_BRANDS.includes(brand);
+};
+
+// DICOM Part 10 files start with a 128-byte preamble followed by "DICM"
+const DICOM_PREAMBLE_LENGTH = 128;
+
+const isDicomHeader = (arr: Uint8Array): boolean => {
+  if (arr.length < DICOM_PREAMBLE_LENGTH + 4) return false;
+  return String.fromCharCode(...arr.slice(DICOM_PREAMBLE_LENGTH, DICOM_PREAMBLE_LENGTH + 4)) === "DICM";
+};
+
+/**
+ * Resolves the MIME type of an image upload.
+ * Browsers outside Apple platforms usually report an empty type for
+ * HEIC files, so fall back to the file extension for those.
+ */
+export const getImageMimeType = (file: File): string => {
+  if (file.type) return file.type;
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  if (extension === "heic") return "image/heic";
+  if (extension === "heif") return "image/heif";
+  if (extension === "dcm" || extension === "dicom") return "application/dicom";
+  return file.type;
+};
+
 /**
  * Validates file by checking its magic number (file header)
  * This prevents MIME type spoofing
  */
 export const validateFileHeader = async (
   file: File,
-  expectedType: "pdf" | "jpeg" | "png"
+  expectedType: "pdf" | "jpeg" | "png" | "heic" | "dicom"
 ): Promise<boolean> => {
   return new Promise((resolve) => {
     const reader = new FileReader();
@@ -45,6 +83,17 @@ export const validateFileHeader = async (
       }
 
       const arr = new Uint8Array(e.target.result as ArrayBuffer);
+
+      if (expectedType === "heic") {
+        resolve(isHeifHeader(arr));
+        return;
+      }
+
+      if (expectedType === "dicom") {
+        resolve(isDicomHeader(arr));
+        return;
+      }
+
       const signatures = FILE_SIGNATURES[expectedType];
 
       // Check if file starts with any of the valid signatures
@@ -57,8 +106,8 @@ export const validateFileHeader = async (
 
     reader.onerror = () => resolve(false);
     
-    // Read first 8 bytes (enough for all our file types)
-    reader.readAsArrayBuffer(file.slice(0, 8));
+    // Read first 132 bytes (enough for all our file types, including the DICOM preamble)
+    reader.readAsArrayBuffer(file.slice(0, DICOM_PREAMBLE_LENGTH + 4));
   });
 };
 
@@ -99,14 +148,55 @@ export const validatePdfFile = async (
   return { valid: true };
 };
 
+/**
+ * Checks whether an upload looks like a DICOM file, by extension/MIME or by its preamble
+ */
+export const isDicomFile = async (file: File): Promise<boolean> => {
+  const mimeType = getImageMimeType(file);
+  if (mimeType === "application/dicom") return true;
+  if (mimeType === "application/pdf" || imageFileSchema.shape.type.safeParse(mimeType).success) return false;
+  // Imaging units export DICOM without an extension or under .bin, .img and the like
+  return validateFileHeader(file, "dicom");
+};
+
+export const validateDicomFile = async (
+  file: File
+): Promise<FileValidationResult> => {
+  // Schema validation
+  const schemaResult = dicomFileSchema.safeParse({
+    name: file.name,
+    size: file.size,
+  });
+
+  if (!schemaResult.success) {
+    return {
+      valid: false,
+      error: schemaResult.error.errors[0]?.message || "Invalid file",
+    };
+  }
+
+  // Header validation
+  const isValidHeader = await validateFileHeader(file, "dicom");
+  if (!isValidHeader) {
+    return {
+      valid: false,
+      error: "File appears to be corrupted or is not a valid DICOM file",
+    };
+  }
+
+  return { valid: true };
+};
+
 export const validateImageFile = async (
   file: File
 ): Promise<FileValidationResult> => {
+  const mimeType = getImageMimeType(file);
+
   // Schema validation
   const schemaResult = imageFileSchema.safeParse({
     name: file.name,
     size: file.size,
-    type: file.type,
+    type: mimeType,
   });
 
   if (!schemaResult.success) {
@@ -117,11 +207,13 @@ export const validateImageFile = async (
   }
 
   // Determine expected type from MIME
-  let expectedType: "jpeg" | "png";
-  if (file.type === "image/jpeg" || file.type === "image/jpg") {
+  let expectedType: "jpeg" | "png" | "heic";
+  if (mimeType === "image/jpeg" || mimeType === "image/jpg") {
     expectedType = "jpeg";
-  } else if (file.type === "image/png") {
+  } else if (mimeType === "image/png") {
     expectedType = "png";
+  } else if (mimeType === "image/heic" || mimeType === "image/heif") {
+    expectedType = "heic";
   } else {
     return { valid: false, error: "Unsupported image format" };
   }
@@ -0,0 +1,36 @@
+import { getImageMimeType } from "@/utils/fileValidation";
+
+/**
+ * Checks whether an upload is a HEIC/HEIF image (e.g. an iPhone export)
+ */
+export const isHeicFile = (file: File): boolean => {
+  const mimeType = getImageMimeType(file);
+  return mimeType === "image/heic" || mimeType === "image/heif";
+};
+
+/**
+ * Decodes a HEIC/HEIF image in the browser and re-encodes it as JPEG.
+ * The decoder is loaded on demand so it only ships to users who need it.
+ */
+export const convertHeicToJpeg = async (file: File, quality = 0.92): Promise<File> => {
+  let result: Blob | Blob[];
+
+  try {
+    const { default: heic2any } = await import("heic2any");
+    result = await heic2any({ blob: file, toType: "image/jpeg", quality });
+  } catch (error) {
+    console.error("Error converting HEIC image:", error);
+    throw new Error(
+      "This HEIC image could not be decoded. Please export it as JPEG or PNG from your device and try again."
+    );
+  }
+
+  // Image sequences (e.g. Live Photos) decode to several frames; keep the first
+  const blob = Array.isArray(result) ? result[0] : result;
+  if (!blob) {
+    throw new Error("This HEIC image does not contain any decodable frames.");
+  }
+
+  const jpegName = file.name.replace(/\.(heic|heif)$/i, "") + ".jpg";
+  return new File([blob], jpegName, { type: "image/jpeg", lastModified: file.lastModified });
+};
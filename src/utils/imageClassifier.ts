@@ -0,0 +1,134 @@
+import { ImageViewType } from "@/config/imageViewTypes";
+
+export type ImageCategory = "panoramic_xray" | "ceph_xray" | "clinical_photo";
+
+export interface ImageFeatures {
+  aspectRatio: number;
+  // Mean per-pixel channel spread (0-255); near zero for grayscale radiographs
+  colorfulness: number;
+  // Share of pixels in each of HISTOGRAM_BINS equal intensity bands, darkest first
+  intensityHistogram: number[];
+  // Share of pixels that are near-black, typical of radiograph backgrounds
+  darkFraction: number;
+  // Share of pixels in the middle of the range, where most of a photo's skin and shadow tones fall
+  midtoneFraction: number;
+}
+
+export interface ImageClassification {
+  category: ImageCategory;
+  suggestedViewType: ImageViewType;
+  confidence: number;
+  features: ImageFeatures;
+}
+
+// Images are analyzed at this size; heuristics don't need full resolution
+const SAMPLE_LONG_EDGE = 256;
+
+// Channel spread below this counts as grayscale (allows for tinted X-ray exports)
+const GRAYSCALE_THRESHOLD = 12;
+
+// Panoramic radiographs are roughly 2:1, cephalograms closer to square or 5:4
+const PANORAMIC_MIN_ASPECT = 1.6;
+
+// Grayscale images whose histogram scores below this are treated as black-and-white photos
+const RADIOGRAPH_MIN_CONFIDENCE = 0.5;
+
+const HISTOGRAM_BINS = 16;
+
+// Bins 0-2 (intensity below 48) count as near-black; bins 4-11 (64-191) as midtones
+const DARK_BINS = 3;
+const MIDTONE_BINS: [number, number] = [4, 12];
+
+export const IMAGE_CATEGORY_LABELS: Record<ImageCategory, string> = {
+  panoramic_xray: "Panoramic radiograph",
+  ceph_xray: "Cephalogram",
+  clinical_photo: "Clinical photo",
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unable to load image for classification"));
+    image.src = src;
+  });
+
+export const extractImageFeatures = async (src: string): Promise<ImageFeatures> => {
+  const image = await loadImage(src);
+  const scale = Math.min(1, SAMPLE_LONG_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Your browser does not support image analysis");
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const pixelCount = data.length / 4;
+  let spreadSum = 0;
+  const histogram = new Array<number>(HISTOGRAM_BINS).fill(0);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    spreadSum += Math.max(r, g, b) - Math.min(r, g, b);
+    const intensity = 0.299 * r + 0.587 * g + 0.114 * b;
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((intensity / 256) * HISTOGRAM_BINS))]++;
+  }
+
+  const intensityHistogram = histogram.map((count) => count / pixelCount);
+  const sumBins = (from: number, to: number) =>
+    intensityHistogram.slice(from, to).reduce((sum, share) => sum + share, 0);
+
+  return {
+    aspectRatio: image.naturalWidth / image.naturalHeight,
+    colorfulness: spreadSum / pixelCount,
+    intensityHistogram,
+    darkFraction: sumBins(0, DARK_BINS),
+    midtoneFraction: sumBins(...MIDTONE_BINS),
+  };
+};
+
+/**
+ * Suggests what kind of orthodontic record an image is from simple
+ * pixel statistics. This is a hint for tagging, not a diagnosis: the
+ * clinician can always override the suggested view type.
+ */
+export const classifyImageFeatures = (features: ImageFeatures): ImageClassification => {
+  const { aspectRatio, colorfulness, darkFraction, midtoneFraction } = features;
+  const isGrayscale = colorfulness < GRAYSCALE_THRESHOLD;
+
+  // Radiographs have a dark background and bright bone, so their histogram is weighted
+  // towards the ends; grayscale photos are mostly midtones
+  const radiographConfidence = Math.min(1, 0.3 + darkFraction + 0.4 * (1 - midtoneFraction));
+
+  if (isGrayscale && radiographConfidence >= RADIOGRAPH_MIN_CONFIDENCE) {
+    if (aspectRatio >= PANORAMIC_MIN_ASPECT) {
+      return {
+        category: "panoramic_xray",
+        suggestedViewType: "panoramic",
+        confidence: Math.min(1, radiographConfidence + 0.1 * (aspectRatio - PANORAMIC_MIN_ASPECT)),
+        features,
+      };
+    }
+
+    return {
+      category: "ceph_xray",
+      suggestedViewType: "lateral_ceph",
+      confidence: radiographConfidence * 0.8,
+      features,
+    };
+  }
+
+  // Clinical photos: landscape framing is typical of intraoral shots, portrait of facial shots
+  return {
+    category: "clinical_photo",
+    suggestedViewType: aspectRatio >= 1 ? "intraoral_frontal" : "extraoral_frontal",
+    confidence: Math.min(1, 0.5 + colorfulness / 100),
+    features,
+  };
+};
+
+export const classifyImage = async (src: string): Promise<ImageClassification> =>
+  classifyImageFeatures(await extractImageFeatures(src));
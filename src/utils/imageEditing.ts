@@ -0,0 +1,224 @@
+import { IMAGE_PROCESSING } from "@/config/imageProcessing";
+
+// Rectangle in coordinates normalized to the image size (0-1)
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type RedactionRect = NormalizedRect;
+
+export type QuarterRotation = 0 | 90 | 180 | 270;
+
+// Which side of the image shows the patient's right
+export type PatientRightSide = "image_left" | "image_right";
+
+/**
+ * Edits are applied in order: rotation and straightening, horizontal flip,
+ * crop, then redactions and the side marker on the cropped result.
+ */
+export interface ImageEdits {
+  rotation: QuarterRotation;
+  // Free-angle straightening in degrees
+  straighten: number;
+  flipHorizontal: boolean;
+  // Relative to the rotated and flipped image; null keeps the full frame
+  crop: NormalizedRect | null;
+  // Burns an R/L marker into the image when set
+  patientRightSide: PatientRightSide | null;
+  // Relative to the final (cropped) image
+  redactions: RedactionRect[];
+}
+
+export const EMPTY_IMAGE_EDITS: ImageEdits = {
+  rotation: 0,
+  straighten: 0,
+  flipHorizontal: false,
+  crop: null,
+  patientRightSide: null,
+  redactions: [],
+};
+
+export const MAX_STRAIGHTEN_DEGREES = 15;
+
+export interface RenderedImage {
+  file: File;
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Whether two sets of edits produce a different frame, which
+ * invalidates redactions drawn on the previous frame
+ */
+export const hasGeometryChanged = (previous: ImageEdits, next: ImageEdits): boolean =>
+  previous.rotation !== next.rotation ||
+  previous.straighten !== next.straighten ||
+  previous.flipHorizontal !== next.flipHorizontal ||
+  JSON.stringify(previous.crop) !== JSON.stringify(next.crop);
+
+const REDACTION_STORAGE_KEY = "ortho_redaction_layouts";
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unable to load image for editing"));
+    image.src = src;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Unable to encode edited image"))),
+      type,
+      quality
+    );
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Your browser does not support image editing");
+  return { canvas, context };
+};
+
+// Applies rotation, straightening and flip; scale < 1 renders a smaller preview
+const drawGeometry = (image: HTMLImageElement, edits: ImageEdits, scale = 1): HTMLCanvasElement => {
+  const sourceWidth = image.naturalWidth * scale;
+  const sourceHeight = image.naturalHeight * scale;
+  const isSideways = edits.rotation === 90 || edits.rotation === 270;
+  const { canvas, context } = createCanvas(
+    isSideways ? sourceHeight : sourceWidth,
+    isSideways ? sourceWidth : sourceHeight
+  );
+
+  // Straightening rotates within the same frame; uncovered corners stay black
+  context.fillStyle = "#000000";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.translate(canvas.width / 2, canvas.height / 2);
+  if (edits.flipHorizontal) context.scale(-1, 1);
+  context.rotate(((edits.rotation + edits.straighten) * Math.PI) / 180);
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, -sourceWidth / 2, -sourceHeight / 2, sourceWidth, sourceHeight);
+  return canvas;
+};
+
+const drawSideMarkers = (context: CanvasRenderingContext2D, width: number, height: number, rightSide: PatientRightSide) => {
+  const fontSize = Math.max(14, Math.round(Math.min(width, height) * 0.05));
+  const margin = Math.round(fontSize * 0.6);
+  context.font = `bold ${fontSize}px Arial, sans-serif`;
+  context.textBaseline = "top";
+  context.lineWidth = Math.max(2, fontSize / 8);
+  context.strokeStyle = "#000000";
+  context.fillStyle = "#ffffff";
+
+  const markers: Array<[string, "left" | "right"]> = rightSide === "image_left"
+    ? [["R", "left"], ["L", "right"]]
+    : [["L", "left"], ["R", "right"]];
+
+  for (const [label, side] of markers) {
+    context.textAlign = side;
+    const x = side === "left" ? margin : width - margin;
+    context.strokeText(label, x, margin);
+    context.fillText(label, x, margin);
+  }
+};
+
+/**
+ * Renders the rotated, straightened and flipped image (without crop) at a
+ * reduced size for the editor preview
+ */
+export const renderGeometryPreview = async (
+  baseSrc: string,
+  edits: ImageEdits,
+  maxLongEdge: number
+): Promise<string> => {
+  const image = await loadImage(baseSrc);
+  const scale = Math.min(1, maxLongEdge / Math.max(image.naturalWidth, image.naturalHeight));
+  return drawGeometry(image, edits, scale).toDataURL("image/jpeg", 0.8);
+};
+
+/**
+ * Renders the edits onto the base image and returns the pixels that are
+ * sent for analysis and embedded in the PDF.
+ */
+export const renderEditedImage = async (
+  baseSrc: string,
+  edits: ImageEdits,
+  fileName: string
+): Promise<RenderedImage> => {
+  const image = await loadImage(baseSrc);
+  const transformed = drawGeometry(image, edits);
+
+  const crop = edits.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const { canvas, context } = createCanvas(crop.width * transformed.width, crop.height * transformed.height);
+  context.drawImage(
+    transformed,
+    crop.x * transformed.width,
+    crop.y * transformed.height,
+    crop.width * transformed.width,
+    crop.height * transformed.height,
+    0,
+    0,
+    canvas.width,
+    canvas.height
+  );
+
+  // Redacted areas are painted over, so the original pixels can't be recovered
+  context.fillStyle = "#000000";
+  for (const rect of edits.redactions) {
+    context.fillRect(
+      Math.floor(rect.x * canvas.width),
+      Math.floor(rect.y * canvas.height),
+      Math.ceil(rect.width * canvas.width),
+      Math.ceil(rect.height * canvas.height)
+    );
+  }
+
+  if (edits.patientRightSide) {
+    drawSideMarkers(context, canvas.width, canvas.height, edits.patientRightSide);
+  }
+
+  const dataUrl = canvas.toDataURL("image/jpeg", IMAGE_PROCESSING.jpegQuality);
+  const blob = await canvasToBlob(canvas, "image/jpeg", IMAGE_PROCESSING.jpegQuality);
+  return {
+    file: new File([blob], fileName, { type: "image/jpeg" }),
+    dataUrl,
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
+
+const readRedactionLayouts = (): Record<string, RedactionRect[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(REDACTION_STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Returns the redaction rectangles last used for images of this size.
+ * A clinic's imaging unit exports the same layout every time, so the
+ * burned-in patient text sits in the same place.
+ */
+export const loadRedactionLayout = (width: number, height: number): RedactionRect[] | null => {
+  const layout = readRedactionLayouts()[`${width}x${height}`];
+  return Array.isArray(layout) && layout.length > 0 ? layout : null;
+};
+
+export const saveRedactionLayout = (width: number, height: number, redactions: RedactionRect[]) => {
+  try {
+    const layouts = readRedactionLayouts();
+    layouts[`${width}x${height}`] = redactions;
+    localStorage.setItem(REDACTION_STORAGE_KEY, JSON.stringify(layouts));
+  } catch (error) {
+    console.error("Error saving redaction layout:", error);
+  }
+};
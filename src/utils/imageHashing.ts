@@ -0,0 +1,72 @@
+/**
+ * Content hashes for case images.
+ *
+ * The SHA-256 identifies byte-identical uploads across sessions; the
+ * perceptual hash catches the same image re-exported, resized or
+ * recompressed within a case.
+ */
+
+// Differing bits out of 64 at or below which two images are treated as the same picture
+export const NEAR_DUPLICATE_MAX_DISTANCE = 6;
+
+export const sha256Hex = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unable to load image for hashing"));
+    image.src = src;
+  });
+
+/**
+ * 64-bit difference hash: the image is shrunk to 9×8 grayscale and each bit
+ * records whether a pixel is brighter than its right-hand neighbour.
+ * Returned as 16 hex characters.
+ */
+export const perceptualHash = async (src: string): Promise<string> => {
+  const image = await loadImage(src);
+  const canvas = document.createElement("canvas");
+  canvas.width = 9;
+  canvas.height = 8;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Your browser does not support image analysis");
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, 0, 0, 9, 8);
+  const { data } = context.getImageData(0, 0, 9, 8);
+
+  const luma = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  let hash = "";
+  for (let y = 0; y < 8; y++) {
+    let nibble = 0;
+    for (let x = 0; x < 8; x++) {
+      nibble = (nibble << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+};
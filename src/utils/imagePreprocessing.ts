@@ -0,0 +1,114 @@
+import { IMAGE_PROCESSING } from "@/config/imageProcessing";
+
+export interface PreprocessOptions {
+  maxLongEdge?: number;
+  jpegQuality?: number;
+}
+
+export interface PreprocessedImage {
+  file: File;
+  dataUrl: string;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+  isGrayscale: boolean;
+}
+
+// Mean channel spread below this is treated as a grayscale radiograph
+const GRAYSCALE_SPREAD_THRESHOLD = 4;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Unable to encode image"))),
+      type,
+      quality
+    );
+  });
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(new Error("Unable to read image file"));
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Resizes an image to the configured long edge and re-encodes it as JPEG.
+ * Grayscale images (radiographs) are flattened to pure luminance so JPEG
+ * chroma artifacts can't tint them.
+ */
+export const preprocessImage = async (
+  file: File,
+  options: PreprocessOptions = {}
+): Promise<PreprocessedImage> => {
+  const maxLongEdge = options.maxLongEdge ?? IMAGE_PROCESSING.maxLongEdge;
+  const jpegQuality = options.jpegQuality ?? IMAGE_PROCESSING.jpegQuality;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (error) {
+    console.error("Error decoding image:", error);
+    throw new Error(`${file.name} could not be decoded as an image`);
+  }
+
+  const originalWidth = bitmap.width;
+  const originalHeight = bitmap.height;
+  const scale = Math.min(1, maxLongEdge / Math.max(originalWidth, originalHeight));
+  const width = Math.max(1, Math.round(originalWidth * scale));
+  const height = Math.max(1, Math.round(originalHeight * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    throw new Error("Your browser does not support image processing");
+  }
+
+  // JPEG has no alpha channel, so flatten transparent PNGs onto white
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const imageData = context.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  let spreadSum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    spreadSum += Math.max(data[i], data[i + 1], data[i + 2]) - Math.min(data[i], data[i + 1], data[i + 2]);
+  }
+  const isGrayscale = spreadSum / (data.length / 4) < GRAYSCALE_SPREAD_THRESHOLD;
+
+  if (isGrayscale) {
+    for (let i = 0; i < data.length; i += 4) {
+      const luma = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+      data[i] = data[i + 1] = data[i + 2] = luma;
+    }
+    context.putImageData(imageData, 0, 0);
+  }
+
+  const blob = await canvasToBlob(canvas, "image/jpeg", jpegQuality);
+  const jpegName = file.name.replace(/\.[^.]+$/, "") + ".jpg";
+
+  return {
+    file: new File([blob], jpegName, { type: "image/jpeg", lastModified: file.lastModified }),
+    dataUrl: await blobToDataUrl(blob),
+    width,
+    height,
+    originalWidth,
+    originalHeight,
+    isGrayscale,
+  };
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,220 @@
+import { ImageViewType, isRadiographView } from "@/config/imageViewTypes";
+
+/**
+ * Pre-analysis quality checks for case images.
+ *
+ * A blurry phone photo of a monitor still produces a confident report,
+ * so obvious capture problems are flagged before anything is sent.
+ */
+
+export type QualityIssueCode = "low_resolution" | "blurry" | "overexposed" | "underexposed" | "moire";
+
+export interface QualityIssue {
+  code: QualityIssueCode;
+  message: string;
+  // Failing issues must be explicitly overridden before analysis
+  severity: "warning" | "fail";
+}
+
+export interface QualityScores {
+  width: number;
+  height: number;
+  // Variance of the Laplacian; low values mean few sharp edges
+  blurScore: number;
+  meanIntensity: number;
+  brightClipFraction: number;
+  darkClipFraction: number;
+  // Peak periodic autocorrelation of fine detail; high values suggest screen moiré
+  moireScore: number;
+}
+
+export interface QualityReport {
+  scores: QualityScores;
+  issues: QualityIssue[];
+  passed: boolean;
+}
+
+// Blur and moiré are measured at a fixed size so scores are comparable between uploads
+const ANALYSIS_LONG_EDGE = 768;
+
+const THRESHOLDS = {
+  minLongEdge: 800,
+  minShortEdge: 400,
+  blurFail: 15,
+  blurWarning: 40,
+  darkMean: 30,
+  brightMean: 225,
+  darkClip: 0.6,
+  brightClip: 0.3,
+  moireWarning: 0.3,
+};
+
+// Panoramic and ceph radiographs are mostly black background, so a low mean says nothing
+// about exposure; only an image that is almost entirely black counts as underexposed
+const RADIOGRAPH_THRESHOLDS = {
+  ...THRESHOLDS,
+  darkMean: 0,
+  darkClip: 0.9,
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unable to load image for quality check"));
+    image.src = src;
+  });
+
+const toGrayscale = (data: Uint8ClampedArray, pixelCount: number): Float32Array => {
+  const gray = new Float32Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+const laplacianVariance = (gray: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+/**
+ * Screen moiré shows up as a regular pattern in the fine detail of every row.
+ * Measures the strongest normalized autocorrelation of the horizontal second
+ * derivative at short lags, averaged across sampled rows.
+ */
+const moireScore = (gray: Float32Array, width: number, height: number): number => {
+  const minLag = 2;
+  const maxLag = 12;
+  const lagTotals = new Float32Array(maxLag + 1);
+  let rowsSampled = 0;
+  const rowStep = Math.max(1, Math.floor(height / 64));
+  const detail = new Float32Array(width);
+
+  for (let y = 0; y < height; y += rowStep) {
+    const row = y * width;
+    let energy = 0;
+    for (let x = 1; x < width - 1; x++) {
+      detail[x] = gray[row + x - 1] - 2 * gray[row + x] + gray[row + x + 1];
+      energy += detail[x] * detail[x];
+    }
+    if (energy === 0) continue;
+
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      let correlation = 0;
+      for (let x = 1; x < width - 1 - lag; x++) {
+        correlation += detail[x] * detail[x + lag];
+      }
+      lagTotals[lag] += correlation / energy;
+    }
+    rowsSampled++;
+  }
+
+  if (rowsSampled === 0) return 0;
+  let peak = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    peak = Math.max(peak, lagTotals[lag] / rowsSampled);
+  }
+  return peak;
+};
+
+/**
+ * Works out the issues and pass/fail result from measured scores. Exposure
+ * limits depend on the view type, so this is rerun when the view is retagged.
+ */
+export const evaluateImageQuality = (scores: QualityScores, viewType: ImageViewType): QualityReport => {
+  const thresholds = isRadiographView(viewType) ? RADIOGRAPH_THRESHOLDS : THRESHOLDS;
+  const issues: QualityIssue[] = [];
+  const longEdge = Math.max(scores.width, scores.height);
+  const shortEdge = Math.min(scores.width, scores.height);
+
+  if (longEdge < thresholds.minLongEdge || shortEdge < thresholds.minShortEdge) {
+    issues.push({
+      code: "low_resolution",
+      message: `Low resolution (${scores.width}×${scores.height}); fine detail may not be visible`,
+      severity: "fail",
+    });
+  }
+
+  if (scores.blurScore < thresholds.blurFail) {
+    issues.push({ code: "blurry", message: "Image appears very blurry", severity: "fail" });
+  } else if (scores.blurScore < thresholds.blurWarning) {
+    issues.push({ code: "blurry", message: "Image may be slightly blurry", severity: "warning" });
+  }
+
+  if (scores.meanIntensity > thresholds.brightMean || scores.brightClipFraction > thresholds.brightClip) {
+    issues.push({ code: "overexposed", message: "Image appears overexposed; bright areas are washed out", severity: "fail" });
+  } else if (scores.meanIntensity < thresholds.darkMean || scores.darkClipFraction > thresholds.darkClip) {
+    issues.push({ code: "underexposed", message: "Image appears underexposed; dark areas lack detail", severity: "fail" });
+  }
+
+  if (scores.moireScore > thresholds.moireWarning) {
+    issues.push({
+      code: "moire",
+      message: "Screen pattern detected; this may be a photo of a monitor. Export the original image instead.",
+      severity: "warning",
+    });
+  }
+
+  return {
+    scores,
+    issues,
+    passed: !issues.some((issue) => issue.severity === "fail"),
+  };
+};
+
+export const assessImageQuality = async (
+  src: string,
+  originalWidth: number,
+  originalHeight: number,
+  viewType: ImageViewType
+): Promise<QualityReport> => {
+  const image = await loadImage(src);
+  const scale = Math.min(1, ANALYSIS_LONG_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(3, Math.round(image.naturalWidth * scale));
+  const height = Math.max(3, Math.round(image.naturalHeight * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Your browser does not support image analysis");
+  context.drawImage(image, 0, 0, width, height);
+
+  const pixelCount = width * height;
+  const gray = toGrayscale(context.getImageData(0, 0, width, height).data, pixelCount);
+
+  let intensitySum = 0;
+  let brightCount = 0;
+  let darkCount = 0;
+  for (let i = 0; i < pixelCount; i++) {
+    intensitySum += gray[i];
+    if (gray[i] >= 250) brightCount++;
+    if (gray[i] <= 5) darkCount++;
+  }
+
+  const scores: QualityScores = {
+    width: originalWidth,
+    height: originalHeight,
+    blurScore: Math.round(laplacianVariance(gray, width, height) * 10) / 10,
+    meanIntensity: Math.round(intensitySum / pixelCount),
+    brightClipFraction: Math.round((brightCount / pixelCount) * 1000) / 1000,
+    darkClipFraction: Math.round((darkCount / pixelCount) * 1000) / 1000,
+    moireScore: Math.round(moireScore(gray, width, height) * 1000) / 1000,
+  };
+
+  return evaluateImageQuality(scores, viewType);
+};
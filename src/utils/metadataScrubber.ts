@@ -0,0 +1,205 @@
+/**
+ * Removes embedded metadata from JPEG and PNG files.
+ *
+ * Phones and imaging stations embed EXIF (device serials, timestamps,
+ * GPS), XMP, IPTC and free-text comments that can carry patient names.
+ * Only segments needed to display the image correctly are kept.
+ */
+
+export interface MetadataScrubResult {
+  file: File;
+  // Human-readable names of the metadata that was found and removed
+  removed: string[];
+}
+
+const JPEG_MARKER = {
+  SOI: 0xd8,
+  SOS: 0xda,
+  EOI: 0xd9,
+  APP0: 0xe0,
+  APP1: 0xe1,
+  APP2: 0xe2,
+  APP13: 0xed,
+  APP14: 0xee,
+  APP15: 0xef,
+  COM: 0xfe,
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// PNG chunks that only carry descriptive metadata
+const PNG_METADATA_CHUNKS: Record<string, string> = {
+  tEXt: "Text",
+  zTXt: "Compressed text",
+  iTXt: "International text",
+  eXIf: "EXIF",
+  tIME: "Modification time",
+};
+
+// EXIF tag pointing at the GPS IFD
+const EXIF_GPS_IFD_TAG = 0x8825;
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const exifHasGps = (bytes: Uint8Array, segmentStart: number, segmentEnd: number): boolean => {
+  // TIFF header follows "Exif\0\0"
+  const tiffStart = segmentStart + 6;
+  if (tiffStart + 8 > segmentEnd) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const littleEndian = bytes[tiffStart] === 0x49;
+  const ifdOffset = view.getUint32(tiffStart + 4, littleEndian);
+  const ifdStart = tiffStart + ifdOffset;
+  if (ifdStart + 2 > segmentEnd) return false;
+  const entryCount = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > segmentEnd) return false;
+    if (view.getUint16(entry, littleEndian) === EXIF_GPS_IFD_TAG) return true;
+  }
+  return false;
+};
+
+const describeJpegSegment = (bytes: Uint8Array, marker: number, dataStart: number, dataEnd: number): string[] | null => {
+  if (marker === JPEG_MARKER.COM) return ["Comment"];
+  if (marker === JPEG_MARKER.APP1) {
+    if (startsWith(bytes, dataStart, "Exif\0\0")) {
+      return exifHasGps(bytes, dataStart, dataEnd) ? ["EXIF", "GPS location"] : ["EXIF"];
+    }
+    if (startsWith(bytes, dataStart, "http://ns.adobe.com/")) return ["XMP"];
+    return ["APP1 data"];
+  }
+  if (marker === JPEG_MARKER.APP13) return ["IPTC"];
+  // ICC profiles (APP2) and Adobe color transforms (APP14) affect how the image renders
+  if (marker === JPEG_MARKER.APP2 && startsWith(bytes, dataStart, "ICC_PROFILE")) return null;
+  if (marker === JPEG_MARKER.APP14) return null;
+  if (marker === JPEG_MARKER.APP0) return null;
+  if (marker > JPEG_MARKER.APP0 && marker <= JPEG_MARKER.APP15) return [`APP${marker - JPEG_MARKER.APP0} data`];
+  return null;
+};
+
+const scrubJpeg = (bytes: Uint8Array): { bytes: Uint8Array; removed: string[] } => {
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  const removed: string[] = [];
+  let position = 2;
+
+  while (position + 4 <= bytes.length) {
+    if (bytes[position] !== 0xff) {
+      throw new Error("Malformed JPEG segment");
+    }
+    const marker = bytes[position + 1];
+
+    // Padding bytes between segments
+    if (marker === 0xff) {
+      position++;
+      continue;
+    }
+
+    // Entropy-coded image data runs from start-of-scan to the end of file
+    if (marker === JPEG_MARKER.SOS || marker === JPEG_MARKER.EOI) {
+      kept.push(bytes.subarray(position));
+      break;
+    }
+
+    const length = (bytes[position + 2] << 8) | bytes[position + 3];
+    const segmentEnd = position + 2 + length;
+    const description = describeJpegSegment(bytes, marker, position + 4, segmentEnd);
+
+    if (description) {
+      removed.push(...description);
+    } else {
+      kept.push(bytes.subarray(position, segmentEnd));
+    }
+    position = segmentEnd;
+  }
+
+  return { bytes: concat(kept), removed };
+};
+
+const scrubPng = (bytes: Uint8Array): { bytes: Uint8Array; removed: string[] } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const kept: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  const removed: string[] = [];
+  let position = PNG_SIGNATURE.length;
+
+  while (position + 12 <= bytes.length) {
+    const length = view.getUint32(position);
+    const type = String.fromCharCode(...bytes.subarray(position + 4, position + 8));
+    // length + type + data + CRC
+    const chunkEnd = position + 12 + length;
+
+    const description = PNG_METADATA_CHUNKS[type];
+    if (description) {
+      // Text chunks start with a keyword such as "Author" or "Comment"
+      if (type === "tEXt" || type === "zTXt" || type === "iTXt") {
+        const data = bytes.subarray(position + 8, position + 8 + length);
+        const keywordEnd = data.indexOf(0);
+        const keyword = String.fromCharCode(...data.subarray(0, keywordEnd > 0 ? Math.min(keywordEnd, 79) : 0));
+        removed.push(keyword ? `${description} (${keyword})` : description);
+      } else {
+        removed.push(description);
+      }
+    } else {
+      kept.push(bytes.subarray(position, chunkEnd));
+    }
+
+    position = chunkEnd;
+    if (type === "IEND") break;
+  }
+
+  return { bytes: concat(kept), removed };
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === JPEG_MARKER.SOI;
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, index) => bytes[index] === byte);
+
+const scrubBytes = (bytes: Uint8Array): { bytes: Uint8Array; removed: string[] } => {
+  if (isJpeg(bytes)) return scrubJpeg(bytes);
+  if (isPng(bytes)) return scrubPng(bytes);
+  return { bytes, removed: [] };
+};
+
+/**
+ * Strips metadata from a JPEG or PNG file. Other formats are returned unchanged.
+ */
+export const stripImageMetadata = async (file: File): Promise<MetadataScrubResult> => {
+  const { bytes, removed } = scrubBytes(new Uint8Array(await file.arrayBuffer()));
+  if (removed.length === 0) {
+    return { file, removed };
+  }
+  return {
+    file: new File([bytes], file.name, { type: file.type, lastModified: file.lastModified }),
+    removed: Array.from(new Set(removed)),
+  };
+};
+
+/**
+ * Lists the metadata a JPEG or PNG file carries, without modifying it.
+ * Browsers decode files this scanner finds malformed, and the re-encoded
+ * upload carries no metadata either way, so such files list nothing rather
+ * than being rejected.
+ */
+export const listImageMetadata = async (file: File): Promise<string[]> => {
+  try {
+    const { removed } = scrubBytes(new Uint8Array(await file.arrayBuffer()));
+    return Array.from(new Set(removed));
+  } catch (error) {
+    console.warn(`Unable to list metadata in ${file.name}:`, error);
+    return [];
+  }
+};
@@ -0,0 +1,55 @@
+import { MockAnalysisScenario } from "@/config/devMode";
+import { REPORT_SECTIONS } from "@/utils/reportRenderer";
+import { buildMockReport, hashMockImage, MOCK_SLOW_RESPONSE_MS } from "../../supabase/functions/_shared/mockAnalysis.ts";
+import { AnalysisFailedError, AnalysisRateLimitError, AnalysisStreamEvent } from "@/utils/analysisStream";
+
+/**
+ * Browser-side stand-in for the edge function's mock provider, used when
+ * VITE_MOCK_ANALYSIS=local. Both build their reports with the shared
+ * buildMockReport, so a fixture produces the same report in both modes.
+ */
+
+// Pause between simulated stream events, so the live report can be watched filling in
+const SECTION_DELAY_MS = 300;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const runMockAnalysis = async (
+  images: string[],
+  scenario: MockAnalysisScenario,
+  onEvent: (event: AnalysisStreamEvent) => void = () => {}
+): Promise<{ report: unknown }> => {
+  onEvent({ type: "stage", stage: "received" });
+
+  switch (scenario) {
+    case "rate_limited":
+      throw new AnalysisRateLimitError({
+        error: "Mock API error: 429",
+        code: "rate_limited",
+        limit: "upstream",
+        retryAfterSeconds: 30,
+      });
+    case "server_error":
+      throw new AnalysisFailedError({ error: "Mock API error: 500", code: "upstream_down" });
+    case "refused":
+      throw new AnalysisFailedError({ error: "Mock model refused to analyze the images", code: "content_refused" });
+    case "malformed":
+      // Fails report validation, as a truncated model response would
+      return { report: { radiographicFindings: "Full permanent dent" } };
+    case "slow":
+      await delay(MOCK_SLOW_RESPONSE_MS);
+      break;
+  }
+
+  const report = buildMockReport(await hashMockImage(images[0] ?? ""));
+
+  // Replays the report as the edge function streams it, one section at a time
+  onEvent({ type: "stage", stage: "model_started" });
+  for (const [index, key] of REPORT_SECTIONS.entries()) {
+    await delay(SECTION_DELAY_MS);
+    onEvent({ type: "section", key, value: report[key], index: index + 1, total: REPORT_SECTIONS.length });
+  }
+  onEvent({ type: "stage", stage: "finalizing" });
+
+  return { report };
+};
@@ -1,11 +1,12 @@
 import { format } from "date-fns";
+import { PdfImageLayout } from "@/config/imageViewTypes";
 
 export interface PDFExportOptions {
   title: string;
   fileName: string;
   contentRef: React.RefObject<HTMLDivElement>;
   content: string;
-  images?: Array<{ src: string; caption?: string }>;
+  images?: Array<{ src: string; caption?: string; layout?: PdfImageLayout }>;
   logo?: string;
 }
 
@@ -25,13 +26,7 @@ export const generatePDF = async (options: PDFExportOptions): Promise<boolean> =
     if (images && images.length > 0) {
       const imageElements = images.map((img, index) => {
         const caption = img.caption || `Photo ${index + 1}`;
-        // Determine image width class based on caption
-        let widthClass = 'full-width';
-        if (caption.toLowerCase().includes('ceph')) {
-          widthClass = 'half-width';
-        } else if (!caption.toLowerCase().includes('pano')) {
-          widthClass = 'grid-image';
-        }
+        const widthClass = img.layout || 'grid-image';
         
         return `
           <div class="image-container ${widthClass}">
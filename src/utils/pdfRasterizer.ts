@@ -0,0 +1,96 @@
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+// Rendering every page of a long export would exhaust memory on clinic machines
+export const MAX_PDF_PAGES = 20;
+
+// Long edge (in pixels) each page is rendered at
+const RENDER_LONG_EDGE = 2400;
+
+export interface RenderedPdfPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  dataUrl: string;
+  blob: Blob;
+}
+
+export interface RenderedPdf {
+  // Only the first MAX_PDF_PAGES pages are rendered
+  pages: RenderedPdfPage[];
+  // Page count of the whole document
+  totalPages: number;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Unable to encode rendered PDF page"))),
+      type,
+      quality
+    );
+  });
+
+/**
+ * Renders each page of a PDF to a JPEG image in the browser.
+ * The PDF library is loaded on demand so it only ships to users who need it.
+ */
+export const renderPdfPages = async (file: File): Promise<RenderedPdf> => {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  let pdf: Awaited<ReturnType<typeof pdfjs.getDocument>["promise"]>;
+  try {
+    pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  } catch (error) {
+    console.error("Error opening PDF:", error);
+    throw new Error("This PDF could not be opened. It may be encrypted or corrupted.");
+  }
+
+  try {
+    const pageCount = Math.min(pdf.numPages, MAX_PDF_PAGES);
+    const pages: RenderedPdfPage[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const scale = RENDER_LONG_EDGE / Math.max(baseViewport.width, baseViewport.height);
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const context = canvas.getContext("2d");
+      if (!context) {
+        throw new Error("Your browser does not support rendering PDF pages");
+      }
+
+      // PDFs without a page background would otherwise render onto transparent black
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      await page.render({ canvasContext: context, viewport }).promise;
+
+      const blob = await canvasToBlob(canvas, "image/jpeg", 0.92);
+      pages.push({
+        pageNumber,
+        width: canvas.width,
+        height: canvas.height,
+        dataUrl: canvas.toDataURL("image/jpeg", 0.92),
+        blob,
+      });
+      page.cleanup();
+    }
+
+    return { pages, totalPages: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Wraps a rendered page as an image File named after its source PDF
+ */
+export const pdfPageToFile = (page: RenderedPdfPage, sourceName: string): File => {
+  const baseName = sourceName.replace(/\.pdf$/i, "");
+  return new File([page.blob], `${baseName}-page-${page.pageNumber}.jpg`, { type: "image/jpeg" });
+};
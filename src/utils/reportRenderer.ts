@@ -0,0 +1,64 @@
+import {
+  INTRAORAL_FINDING_LABELS,
+  IntraoralFindingKey,
+  OrthodonticReport,
+  REPORT_SECTIONS,
+  isValidReportSection,
+  validateOrthodonticReport,
+} from "../../supabase/functions/_shared/orthodonticReport.ts";
+
+// The schema is shared with the edge function, which validates the model output against it
+export type { OrthodonticReport };
+export { REPORT_SECTIONS, isValidReportSection, validateOrthodonticReport };
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const renderList = (items: string[]): string =>
+  items.length > 0
+    ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`
+    : "<p>Not clearly visible.</p>";
+
+// Which prompt template produced a report
+export interface PromptVersion {
+  version: number;
+  language: string;
+}
+
+const renderSection = (title: string, body: string | undefined): string[] =>
+  body === undefined ? [] : [`<h3>${title}</h3>`, body];
+
+/**
+ * Renders a validated report to the HTML shown on the page and embedded in
+ * the PDF. All model text is escaped, so no markup from the model is ever
+ * injected. Sections not received yet (while streaming) are left out.
+ * The prompt version, when known, is noted at the end for traceability.
+ */
+export const renderReportHtml = (report: Partial<OrthodonticReport>, prompt?: PromptVersion): string => {
+  const intraoralItems = report.intraoralFindings
+    ? (Object.keys(INTRAORAL_FINDING_LABELS) as IntraoralFindingKey[])
+      .map((key) => `<li><strong>${INTRAORAL_FINDING_LABELS[key]}:</strong> ${escapeHtml(report.intraoralFindings![key])}</li>`)
+      .join("")
+    : undefined;
+  const listBody = (items: string[] | undefined) => (items ? renderList(items) : undefined);
+
+  return [
+    "<h2>Orthodontic Evaluation Report</h2>",
+    ...renderSection("1. Radiographic Findings", listBody(report.radiographicFindings)),
+    ...renderSection("2. Intraoral Findings", intraoralItems && `<ul>${intraoralItems}</ul>`),
+    ...renderSection("3. Bite &amp; Functional Observations", listBody(report.biteObservations)),
+    ...renderSection("4. Problem List", listBody(report.problemList)),
+    ...renderSection("5. Treatment Objectives", listBody(report.treatmentObjectives)),
+    ...renderSection("6. Treatment Considerations", listBody(report.treatmentConsiderations)),
+    ...renderSection("7. Image-Only Limitations", report.limitations === undefined ? undefined : `<p>${escapeHtml(report.limitations)}</p>`),
+    ...(report.patientSummary && report.patientSummary.length > 0
+      ? renderSection("Patient-Friendly Summary", renderList(report.patientSummary))
+      : []),
+    ...(prompt ? [`<p><em>Prompt version ${prompt.version} (${escapeHtml(prompt.language)})</em></p>`] : []),
+  ].join("\n");
+};
@@ -0,0 +1,40 @@
+import { getSupabaseClient } from "@/integrations/supabase/safeClient";
+
+// Generate or retrieve session ID for usage tracking
+export const getSessionId = () => {
+  let sessionId = sessionStorage.getItem('ortho_session_id');
+  if (!sessionId) {
+    sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    sessionStorage.setItem('ortho_session_id', sessionId);
+  }
+  return sessionId;
+};
+
+// Log usage event
+export const logUsageEvent = async (eventType: string, metadata?: any, errorMessage?: string) => {
+  try {
+    const supabase = await getSupabaseClient();
+    const { data: { session } } = await supabase.auth.getSession();
+    await supabase.from("orthodontic_usage_logs").insert({
+      event_type: eventType,
+      session_id: getSessionId(),
+      user_id: session?.user.id ?? null,
+      metadata: metadata || null,
+      error_message: errorMessage || null,
+    });
+  } catch (error) {
+    console.error("Error logging usage:", error);
+  }
+};
+
+// Record the clinician's 1-5 rating of a report. The database attributes it to
+// the analysis's experiment arm, so the browser can't choose which arm it counts for.
+export const recordReportRating = async (analysisId: string, rating: number) => {
+  try {
+    const supabase = await getSupabaseClient();
+    const { error } = await supabase.rpc("record_report_rating", { _analysis_id: analysisId, _rating: rating });
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error recording report rating:", error);
+  }
+};
@@ -0,0 +1,66 @@
+/**
+ * Limits on what the analyzer may send to analyze-orthodontic-image, the
+ * bodies of the errors it returns, and the failure codes used to classify
+ * them. Shared so the front end can enforce the same limits before uploading
+ * and tailor its messages to the failure.
+ * Keep this file free of imports so it loads in both Deno and Vite.
+ */
+
+export const MAX_ANALYSIS_IMAGES = 8;
+// Decoded bytes; preprocessed JPEGs are typically well under 1 MB
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_TOTAL_IMAGE_BYTES = 20 * 1024 * 1024;
+
+export const ANALYSIS_REQUEST_ERROR_CODES = [
+  'invalid_body',
+  'no_images',
+  'too_many_images',
+  'invalid_image_url',
+  'unsupported_image_type',
+  'invalid_image_data',
+  'image_type_mismatch',
+  'image_too_large',
+  'payload_too_large',
+  'invalid_view_type',
+] as const;
+
+export type AnalysisRequestErrorCode = typeof ANALYSIS_REQUEST_ERROR_CODES[number];
+
+// Body of a 400 response; imageIndex is zero-based and set when one image is at fault
+export interface AnalysisRequestErrorBody {
+  error: string;
+  code: AnalysisRequestErrorCode;
+  imageIndex?: number;
+}
+
+// Which limit a 429 came from; upstream means the model vendor itself throttled us
+export type AnalysisRateLimitType = 'ip' | 'session' | 'daily_spend' | 'upstream';
+
+// Body of a 429 response; the same value is sent in the Retry-After header
+export interface AnalysisRateLimitBody {
+  error: string;
+  code: 'rate_limited';
+  limit: AnalysisRateLimitType;
+  retryAfterSeconds?: number;
+}
+
+// Failure categories; each failed analysis is logged as "<code>: <message>"
+export const ANALYSIS_FAILURE_CODES = [
+  'invalid_request',
+  'invalid_image',
+  'auth_required',
+  'rate_limited',
+  'content_refused',
+  'timeout',
+  'upstream_down',
+  'invalid_output',
+  'internal',
+] as const;
+
+export type AnalysisFailureCode = typeof ANALYSIS_FAILURE_CODES[number];
+
+// Body of any other error response, and of a streamed `error` event
+export interface AnalysisFailureBody {
+  error: string;
+  code: AnalysisFailureCode;
+}
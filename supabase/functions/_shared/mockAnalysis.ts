@@ -0,0 +1,65 @@
+/**
+ * Canned analysis for offline development, shared by the edge function's
+ * mock provider and the analyzer's local mock mode so a fixture image gets
+ * the same report either way. Only imports other _shared files, so it loads
+ * in both Deno and Vite.
+ */
+
+import type { OrthodonticReport } from './orthodonticReport.ts';
+
+export const MOCK_ANALYSIS_SCENARIOS = ['success', 'slow', 'malformed', 'refused', 'rate_limited', 'server_error'] as const;
+
+export type MockAnalysisScenario = typeof MOCK_ANALYSIS_SCENARIOS[number];
+
+export const isMockAnalysisScenario = (value: unknown): value is MockAnalysisScenario =>
+  typeof value === 'string' && (MOCK_ANALYSIS_SCENARIOS as readonly string[]).includes(value);
+
+// How long the slow scenario waits before answering
+export const MOCK_SLOW_RESPONSE_MS = 8000;
+
+// Canned findings; the variant is picked from the image hash so the same images always get the same report
+const REPORT_VARIANTS = [
+  {
+    radiographic: ['Full permanent dentition present.', 'Third molars developing in all four quadrants.'],
+    problems: ['Moderate anterior crowding.', 'Increased overjet.'],
+  },
+  {
+    radiographic: ['Upper left lateral incisor not clearly visible.', 'Root lengths appear within normal limits.'],
+    problems: ['Spacing in the upper anterior segment.', 'Upper midline shifted to the left.'],
+  },
+  {
+    radiographic: ['Impacted lower right third molar.', 'No obvious periapical pathology.'],
+    problems: ['Deep anterior overbite.', 'Lower anterior crowding.'],
+  },
+];
+
+// SHA-256 of the first image's data URL, as hex; also what MOCK_HASH_SCENARIOS is keyed on
+export const hashMockImage = async (image: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(image));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const buildMockReport = (imageHash: string): OrthodonticReport => {
+  const variant = REPORT_VARIANTS[parseInt(imageHash.slice(0, 8), 16) % REPORT_VARIANTS.length];
+  return {
+    radiographicFindings: variant.radiographic,
+    intraoralFindings: {
+      midlines: 'Not clearly visible.',
+      overjet: 'Not clearly visible.',
+      openBite: 'No open bite visible.',
+      canineMolarRelationship: 'Not clearly visible.',
+      archForm: 'Arch form appears symmetrical.',
+      spacingCrowding: variant.problems[0],
+      attrition: 'No obvious attrition.',
+    },
+    biteObservations: ['Not clearly visible.'],
+    problemList: variant.problems,
+    treatmentObjectives: ['Improve anterior alignment.'],
+    treatmentConsiderations: ['Comprehensive orthodontic treatment may be considered to address alignment and bite.'],
+    limitations:
+      'Mock report generated without a model; it contains no real findings. This assessment is based solely on the images provided. A full clinical exam, cephalometric measurements, periodontal evaluation, and functional assessment are needed for definitive treatment planning.',
+    patientSummary: ['This is a mock report used for testing.'],
+  };
+};
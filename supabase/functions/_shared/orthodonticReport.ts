@@ -0,0 +1,148 @@
+/**
+ * Structured orthodontic evaluation report.
+ *
+ * Shared by the analyze-orthodontic-image edge function, which asks the
+ * model for this shape and validates the result, and the analyzer front end,
+ * which validates it again and renders it. Keep this file free of imports so
+ * it loads in both Deno and Vite.
+ */
+
+export const INTRAORAL_FINDING_LABELS = {
+  midlines: 'Midlines',
+  overjet: 'Overjet',
+  openBite: 'Open Bite',
+  canineMolarRelationship: 'Canine/Molar Relationship',
+  archForm: 'Arch Form',
+  spacingCrowding: 'Spacing/Crowding',
+  attrition: 'Attrition',
+} as const;
+
+export type IntraoralFindingKey = keyof typeof INTRAORAL_FINDING_LABELS;
+
+export interface OrthodonticReport {
+  radiographicFindings: string[];
+  intraoralFindings: Record<IntraoralFindingKey, string>;
+  biteObservations: string[];
+  problemList: string[];
+  treatmentObjectives: string[];
+  treatmentConsiderations: string[];
+  limitations: string;
+  patientSummary: string[];
+}
+
+// Top-level sections in report order; streamed responses report progress as "section N of 8"
+export const REPORT_SECTIONS = [
+  'radiographicFindings',
+  'intraoralFindings',
+  'biteObservations',
+  'problemList',
+  'treatmentObjectives',
+  'treatmentConsiderations',
+  'limitations',
+  'patientSummary',
+] as const satisfies readonly (keyof OrthodonticReport)[];
+
+// Sections that are lists of statements
+export const REPORT_LIST_SECTIONS = [
+  'radiographicFindings',
+  'biteObservations',
+  'problemList',
+  'treatmentObjectives',
+  'treatmentConsiderations',
+  'patientSummary',
+] as const;
+
+export type ReportListSection = typeof REPORT_LIST_SECTIONS[number];
+
+const stringList = { type: 'array', items: { type: 'string' } };
+
+// JSON Schema in the subset accepted by strict structured-output modes:
+// every property required and no additional properties
+export const ORTHODONTIC_REPORT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    radiographicFindings: stringList,
+    intraoralFindings: {
+      type: 'object',
+      properties: Object.fromEntries(Object.keys(INTRAORAL_FINDING_LABELS).map((key) => [key, { type: 'string' }])),
+      required: Object.keys(INTRAORAL_FINDING_LABELS),
+      additionalProperties: false,
+    },
+    biteObservations: stringList,
+    problemList: stringList,
+    treatmentObjectives: stringList,
+    treatmentConsiderations: stringList,
+    limitations: { type: 'string' },
+    patientSummary: stringList,
+  },
+  required: [...REPORT_LIST_SECTIONS, 'intraoralFindings', 'limitations'],
+  additionalProperties: false,
+};
+
+export type ReportValidationResult =
+  | { valid: true; report: OrthodonticReport }
+  | { valid: false; errors: string[] };
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// Checks a single section, e.g. one received ahead of the rest of a streamed report
+export const isValidReportSection = (key: string, value: unknown): boolean => {
+  if (key === 'intraoralFindings') {
+    return typeof value === 'object' && value !== null &&
+      Object.keys(INTRAORAL_FINDING_LABELS).every((finding) => typeof (value as Record<string, unknown>)[finding] === 'string');
+  }
+  if (key === 'limitations') {
+    return typeof value === 'string';
+  }
+  return (REPORT_LIST_SECTIONS as readonly string[]).includes(key) && isStringList(value);
+};
+
+export const validateOrthodonticReport = (value: unknown): ReportValidationResult => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { valid: false, errors: ['Report must be an object'] };
+  }
+
+  const candidate = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const section of REPORT_LIST_SECTIONS) {
+    if (!isStringList(candidate[section])) {
+      errors.push(`${section} must be a list of strings`);
+    }
+  }
+
+  const intraoral = candidate.intraoralFindings as Record<string, unknown> | undefined;
+  if (typeof intraoral !== 'object' || intraoral === null) {
+    errors.push('intraoralFindings must be an object');
+  } else {
+    for (const key of Object.keys(INTRAORAL_FINDING_LABELS)) {
+      if (typeof intraoral[key] !== 'string') {
+        errors.push(`intraoralFindings.${key} must be a string`);
+      }
+    }
+  }
+
+  if (typeof candidate.limitations !== 'string') {
+    errors.push('limitations must be a string');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  // Rebuild the object so unexpected extra properties are dropped
+  const report: OrthodonticReport = {
+    radiographicFindings: candidate.radiographicFindings as string[],
+    intraoralFindings: Object.fromEntries(
+      Object.keys(INTRAORAL_FINDING_LABELS).map((key) => [key, intraoral![key] as string])
+    ) as Record<IntraoralFindingKey, string>,
+    biteObservations: candidate.biteObservations as string[],
+    problemList: candidate.problemList as string[],
+    treatmentObjectives: candidate.treatmentObjectives as string[],
+    treatmentConsiderations: candidate.treatmentConsiderations as string[],
+    limitations: candidate.limitations as string,
+    patientSummary: candidate.patientSummary as string[],
+  };
+  return { valid: true, report };
+};
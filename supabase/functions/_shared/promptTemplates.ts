@@ -0,0 +1,33 @@
+/**
+ * Prompt template rendering, shared by the edge function and the admin
+ * preview so a previewed prompt is exactly what the model will receive.
+ * Keep this file free of imports so it loads in both Deno and Vite.
+ */
+
+// Placeholders available in a template's user prompt, written as {{name}}
+export const PROMPT_PLACEHOLDERS = {
+  imageCount: 'Number of images in the case',
+  imageList: 'One line per image with the view type the clinician tagged',
+} as const;
+
+export type PromptPlaceholder = keyof typeof PROMPT_PLACEHOLDERS;
+
+// Languages a template can be written for; the analyzer asks for the browser's language
+export const PROMPT_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  pt: 'Portuguese',
+};
+
+export const DEFAULT_PROMPT_LANGUAGE = 'en';
+
+// Unknown placeholders are left as written so a typo is visible in the preview
+export const renderPromptTemplate = (template: string, values: Record<PromptPlaceholder, string>): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in values ? values[name as PromptPlaceholder] : match
+  );
+
+// Arms of a prompt experiment; A is conventionally the current setup, B the challenger
+export type ExperimentArm = 'A' | 'B';
@@ -0,0 +1,54 @@
+/**
+ * Minimal text/event-stream reader, used by the edge function for streamed
+ * vendor responses and by the analyzer front end for the analysis stream.
+ * Keep this file free of imports so it loads in both Deno and Vite.
+ */
+export const readServerSentEvents = async (
+  response: Response,
+  onEvent: (event: string | null, data: string) => void
+): Promise<void> => {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const dispatch = (rawEvent: string) => {
+    let event: string | null = null;
+    const dataLines: string[] = [];
+    for (const line of rawEvent.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+    if (dataLines.length > 0) {
+      onEvent(event, dataLines.join('\n'));
+    }
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let match = buffer.match(/\r?\n\r?\n/);
+    while (match && match.index !== undefined) {
+      dispatch(buffer.slice(0, match.index));
+      buffer = buffer.slice(match.index + match[0].length);
+      match = buffer.match(/\r?\n\r?\n/);
+    }
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+};
+
+// Formats one event for a text/event-stream response
+export const formatServerSentEvent = (event: string, data: unknown): string =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
@@ -0,0 +1,63 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Caller without a valid clinician session while clinician-only mode is on; returned as a 401
+export class AuthRequiredError extends Error {
+  constructor(message = 'Sign in with a clinician account to run an analysis') {
+    super(message);
+    this.name = 'AuthRequiredError';
+  }
+}
+
+// REQUIRE_CLINICIAN_AUTH=true rejects callers without the clinician (or admin) role;
+// otherwise signed-in users are only attributed
+export const isClinicianAuthRequired = () => Deno.env.get('REQUIRE_CLINICIAN_AUTH') === 'true';
+
+// Open sign-up means any account can sign in, so access is granted by role
+const CLINICIAN_ROLES = ['clinician', 'admin'];
+
+const hasClinicianRole = async (supabase: SupabaseClient, userId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .in('role', CLINICIAN_ROLES)
+    .limit(1);
+
+  // Fail closed: without the role lookup there's no way to tell a clinician from anyone else
+  if (error) {
+    throw new Error(`Unable to check clinician role: ${error.message}`);
+  }
+  return (data?.length ?? 0) > 0;
+};
+
+/**
+ * Resolves the Supabase user behind the request's bearer token.
+ *
+ * The anon key is also sent as a bearer token but carries no user, so it
+ * resolves to null like a missing or expired token. When clinician-only mode
+ * is on, a null user, or one without a clinician role, is rejected with
+ * AuthRequiredError.
+ */
+export const authenticateCaller = async (supabase: SupabaseClient, req: Request): Promise<string | null> => {
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+
+  let userId: string | null = null;
+  if (token) {
+    const { data, error } = await supabase.auth.getUser(token);
+    if (!error && data.user) {
+      userId = data.user.id;
+    }
+  }
+
+  if (isClinicianAuthRequired()) {
+    if (!userId) {
+      throw new AuthRequiredError();
+    }
+    if (!(await hasClinicianRole(supabase, userId))) {
+      throw new AuthRequiredError(
+        'This account has not been approved for clinician access. Ask your practice administrator, or sign in with a clinician account.'
+      );
+    }
+  }
+  return userId;
+};
@@ -0,0 +1,48 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { ExperimentArm } from '../_shared/promptTemplates.ts';
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  arm: ExperimentArm;
+  // Prompt version pinned by the arm
+  templateId: string;
+  // Model pinned by the arm; null runs the configured model
+  model: string | null;
+}
+
+// Stable bucket from 0 to 99, so a session stays in one arm for the whole experiment
+const bucketFor = async (key: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return new DataView(digest).getUint32(0) % 100;
+};
+
+/**
+ * Assigns the request to an arm of the language's running experiment, if
+ * there is one. Experiments are optional, so a failure to read them only
+ * means the request runs without one.
+ */
+export const assignExperimentArm = async (
+  supabase: SupabaseClient,
+  language: string,
+  sessionKey: string
+): Promise<ExperimentAssignment | null> => {
+  const { data, error } = await supabase
+    .from('prompt_experiments')
+    .select('id, arm_a_template_id, arm_a_model, arm_b_template_id, arm_b_model, arm_b_percent')
+    .eq('is_active', true)
+    .eq('language', language)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Unable to load prompt experiments, running without one:', error);
+    return null;
+  }
+  if (!data) {
+    return null;
+  }
+
+  const isArmB = (await bucketFor(`${data.id}:${sessionKey}`)) < data.arm_b_percent;
+  return isArmB
+    ? { experimentId: data.id, arm: 'B', templateId: data.arm_b_template_id, model: data.arm_b_model }
+    : { experimentId: data.id, arm: 'A', templateId: data.arm_a_template_id, model: data.arm_a_model };
+};
@@ -1,256 +1,423 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createFallbackProviderFromEnv, createProviderFromEnv, ProviderError } from './providers/index.ts';
+import { analyzeWithRetries, DeadlineExceededError, type FailedAttempt } from './modelCall.ts';
+import { createSectionParser } from './sectionParser.ts';
+import { RequestValidationError, validateAnalysisImages } from './requestValidation.ts';
+import { consumeAnalysisQuota, getClientIp, RateLimitError } from './rateLimit.ts';
+import { authenticateCaller, AuthRequiredError } from './auth.ts';
+import { formatServerSentEvent } from '../_shared/serverSentEvents.ts';
+import type { AnalysisFailureCode, AnalysisRequestErrorCode } from '../_shared/analysisRequest.ts';
+import { DEFAULT_PROMPT_LANGUAGE, PROMPT_LANGUAGES, renderPromptTemplate } from '../_shared/promptTemplates.ts';
+import { loadActivePromptTemplate, loadPromptTemplateById } from './promptTemplates.ts';
+import { assignExperimentArm, type ExperimentAssignment } from './experiments.ts';
+import {
+  ORTHODONTIC_REPORT_JSON_SCHEMA,
+  REPORT_LIST_SECTIONS,
+  REPORT_SECTIONS,
+  validateOrthodonticReport,
+  type OrthodonticReport,
+} from '../_shared/orthodonticReport.ts';
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
+// Comma-separated https URL prefixes (e.g. a storage bucket) images may be referenced from instead of inlined
+const allowedImageUrlPrefixes = (Deno.env.get('ALLOWED_IMAGE_URL_PREFIXES') ?? '')
+  .split(',')
+  .map((prefix) => prefix.trim())
+  .filter(Boolean);
+
 // Create Supabase client with service role for logging
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-mock-scenario, x-session-id',
+  'Access-Control-Expose-Headers': 'retry-after',
 };
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  const sessionId = crypto.randomUUID();
-
-  try {
-    const { images } = await req.json();
-
-    if (!images || !Array.isArray(images) || images.length === 0) {
-      throw new Error('No images provided');
-    }
-
-    console.log(`Analyzing ${images.length} orthodontic image(s)...`);
-
-    // Log upload event
-    await supabase.from('orthodontic_usage_logs').insert({
-      event_type: 'upload',
-      session_id: sessionId,
-      metadata: { image_count: images.length }
-    });
-
-    const systemPrompt = `All output must be in full Markdown format, including:
-• # and ## headings
-• bullet points
-• bold labels
-• clean spacing
-Do NOT remove or alter markdown syntax. The final answer must be valid markdown exactly as written.
-
-You are a world-class orthodontist with advanced expertise in interpreting panoramic radiographs, lateral cephalograms, intraoral photographs, occlusal views, and extraoral facial photos. You will receive between 1 and 8 images.
-
-Your job is to generate a high-quality orthodontic evaluation report that an orthodontist can review in under one minute but still reflects expert-level detail.
-
-Follow these formatting rules exactly:
-
-⸻
-
-Orthodontic Evaluation Report
-
-1. Radiographic Findings
-
-(Panoramic + cephalometric observations. Use short bullet points.)
-• One finding per bullet
-• Each bullet should be one line
-• If visibility is unclear: "Not clearly visible."
-
-⸻
-
-2. Intraoral Findings
-
-Use bold labels followed by short observations:
-• Midlines:
-• Overjet:
-• Open Bite:
-• Canine/Molar Relationship:
-• Arch Form:
-• Spacing/Crowding:
-• Attrition:
-
-Each item should be a single clear sentence.
-
-⸻
-
-3. Bite & Functional Observations
-
-Short bullet points describing visible:
-• Functional shifts
-• Crossbite tendencies
-• Occlusal cant
-• Symmetry
-• Posterior support
-• Anything not clearly visible should be noted as such.
+// Human-readable descriptions of the view tags sent by the analyzer.
+// Keep in sync with IMAGE_VIEW_TYPES in src/config/imageViewTypes.ts.
+const VIEW_TYPE_DESCRIPTIONS: Record<string, string> = {
+  panoramic: 'panoramic radiograph',
+  lateral_ceph: 'lateral cephalogram',
+  intraoral_frontal: 'intraoral frontal photo',
+  intraoral_lateral_right: 'intraoral right buccal photo',
+  intraoral_lateral_left: 'intraoral left buccal photo',
+  intraoral_occlusal_upper: 'upper occlusal photo',
+  intraoral_occlusal_lower: 'lower occlusal photo',
+  extraoral_frontal: 'extraoral frontal facial photo',
+  extraoral_profile: 'extraoral profile photo',
+  extraoral_smile: 'extraoral smile photo',
+};
 
-⸻
+// Attempts per provider, and the overall deadline for the model call.
+// Supabase stops edge functions after 150 seconds of wall-clock time.
+const MAX_ATTEMPTS = Number(Deno.env.get('ANALYSIS_MAX_ATTEMPTS')) || 3;
+const DEADLINE_MS = Number(Deno.env.get('ANALYSIS_DEADLINE_MS')) || 100_000;
 
-4. Problem List
+// The model answered, but not with a usable report
+class InvalidModelOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidModelOutputError';
+  }
+}
 
-Concise bullet list summarizing the main orthodontic concerns (5–10 bullets max).
-No diagnoses — only visible issues.
+// Models occasionally wrap JSON in a code fence even when asked not to
+const parseReport = (text: string): OrthodonticReport => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
 
-⸻
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new InvalidModelOutputError('Model returned malformed JSON');
+  }
 
-5. Treatment Objectives
+  const validation = validateOrthodonticReport(parsed);
+  if (!validation.valid) {
+    throw new InvalidModelOutputError(`Model returned an invalid report: ${validation.errors.join('; ')}`);
+  }
+  return validation.report;
+};
 
-High-level orthodontic goals (1–2 lines per bullet).
-Examples:
-• "Improve midline alignment."
-• "Establish functional anterior guidance."
-• "Reduce increased overjet."
+// Who and what a request's usage log rows are attributed to
+interface RequestLogContext {
+  sessionId: string;
+  userId: string | null;
+  failedAttempts: FailedAttempt[];
+  // When the request arrived, for the latency recorded with the outcome
+  startedAt: number;
+  // Set once the prompt template is loaded, so every later row records which prompt was used
+  prompt?: { id: string; version: number; language: string };
+  // Set when the request is part of a prompt experiment; stamped onto every later row
+  experiment?: ExperimentAssignment | null;
+}
+
+const logUsageEvent = (
+  context: RequestLogContext,
+  eventType: string,
+  metadata: Record<string, unknown>,
+  errorMessage?: string
+) =>
+  supabase.from('orthodontic_usage_logs').insert({
+    event_type: eventType,
+    session_id: context.sessionId,
+    user_id: context.userId,
+    experiment_id: context.experiment?.experimentId ?? null,
+    experiment_arm: context.experiment?.arm ?? null,
+    error_message: errorMessage,
+    metadata: {
+      ...metadata,
+      ...(context.prompt && {
+        prompt_template_id: context.prompt.id,
+        prompt_version: context.prompt.version,
+        prompt_language: context.prompt.language,
+      }),
+    },
+  });
+
+// Request validation failures caused by one specific image rather than the request as a whole
+const IMAGE_VALIDATION_CODES: AnalysisRequestErrorCode[] = [
+  'invalid_image_url',
+  'unsupported_image_type',
+  'invalid_image_data',
+  'image_type_mismatch',
+  'image_too_large',
+];
+
+const classifyAnalysisError = (error: unknown): AnalysisFailureCode => {
+  if (error instanceof RequestValidationError) {
+    return IMAGE_VALIDATION_CODES.includes(error.code) ? 'invalid_image' : 'invalid_request';
+  }
+  if (error instanceof AuthRequiredError) return 'auth_required';
+  if (error instanceof RateLimitError) return 'rate_limited';
+  if (error instanceof DeadlineExceededError) return 'timeout';
+  if (error instanceof InvalidModelOutputError) return 'invalid_output';
+  if (error instanceof ProviderError) {
+    if (error.kind) return error.kind;
+    if (error.status === 429) return 'rate_limited';
+    if (error.status >= 500) return 'upstream_down';
+    return 'internal';
+  }
+  // fetch reports network failures reaching the vendor as a TypeError
+  if (error instanceof TypeError) return 'upstream_down';
+  return 'internal';
+};
 
-⸻
+const FAILURE_STATUS: Record<AnalysisFailureCode, number> = {
+  invalid_request: 400,
+  // Only reached for images the vendor couldn't read; our own checks answer 400 above
+  invalid_image: 422,
+  auth_required: 401,
+  rate_limited: 429,
+  content_refused: 422,
+  timeout: 504,
+  upstream_down: 502,
+  invalid_output: 502,
+  internal: 500,
+};
 
-6. Treatment Considerations
+// Logs a failed analysis and works out the status to report to the client
+const handleAnalysisError = async (context: RequestLogContext, error: unknown) => {
+  console.error('Error in analyze-orthodontic-image function:', error);
+
+  const message = error instanceof Error ? error.message : 'Unknown error occurred';
+  const errorStack = error instanceof Error ? error.stack : undefined;
+  const code = classifyAnalysisError(error);
+  const isRejected = error instanceof RequestValidationError;
+
+  // Log error event; the code prefix lets the dashboard group failures by cause
+  await logUsageEvent(context, 'analysis_error', {
+    error_code: code,
+    duration_ms: Date.now() - context.startedAt,
+    ...(isRejected
+      ? { validation_code: error.code, image_index: error.imageIndex ?? null }
+      : { error_stack: errorStack }),
+    ...(context.failedAttempts.length > 0 && { failed_attempts: context.failedAttempts }),
+  }, `${code}: ${message}`);
+
+  // Rejected requests never reached a model; the code tells the client exactly what to fix
+  if (isRejected) {
+    return { message, status: 400, code: error.code, imageIndex: error.imageIndex };
+  }
 
-General, non-prescriptive orthodontic options.
-NO specific appliances, NO medical directives.
-Examples:
-• "Comprehensive orthodontic treatment may be considered to address alignment and bite."
-• "Restorative planning may be needed for missing teeth."
-• "Third molar management may be discussed."
+  // Our own limits and upstream rate limits both tell the client when to retry
+  if (error instanceof RateLimitError) {
+    return { message, status: 429, code, limit: error.limit, retryAfterSeconds: error.retryAfterSeconds };
+  }
+  if (code === 'rate_limited') {
+    const retryAfterSeconds = error instanceof ProviderError ? error.retryAfterSeconds : undefined;
+    return { message, status: 429, code, limit: 'upstream', retryAfterSeconds };
+  }
+  return { message, status: FAILURE_STATUS[code], code };
+};
 
-⸻
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
 
-7. Image-Only Limitations
+  const logContext: RequestLogContext = {
+    sessionId: crypto.randomUUID(),
+    userId: null,
+    failedAttempts: [],
+    startedAt: Date.now(),
+  };
 
-Short safety section stating:
-"This assessment is based solely on the images provided. A full clinical exam, cephalometric measurements, periodontal evaluation, and functional assessment are needed for definitive treatment planning."
+  try {
+    // In clinician-only mode anonymous callers are turned away before the body is even read
+    logContext.userId = await authenticateCaller(supabase, req);
+
+    let body: { images?: unknown; imageTypes?: unknown; language?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      throw new RequestValidationError('invalid_body', 'Request body must be JSON');
+    }
 
-⸻
+    // Nothing is forwarded to the model vendor until every image passes
+    const images = validateAnalysisImages(body?.images, allowedImageUrlPrefixes);
+    const imageTypes = body.imageTypes;
+
+    // View tags are optional; missing and 'unspecified' tags are treated as untagged. Only the
+    // table's own keys are accepted, so 'constructor' and the like can't reach the prompt.
+    const viewTypes: (string | null)[] = images.map((_: string, index: number) => {
+      const viewType = Array.isArray(imageTypes) ? imageTypes[index] : undefined;
+      if (viewType === undefined || viewType === null || viewType === 'unspecified') return null;
+      if (typeof viewType !== 'string' || !Object.hasOwn(VIEW_TYPE_DESCRIPTIONS, viewType)) {
+        throw new RequestValidationError('invalid_view_type', `Image ${index + 1} has an unknown view type`, index);
+      }
+      return viewType;
+    });
 
-Patient-Friendly Summary (Optional)
+    // Prompts live in prompt_templates; the active version for the clinician's language is used
+    // unless the request lands in an experiment arm that pins another version or model.
+    // Unsupported languages, prototype keys like 'constructor' included, get the default.
+    const language = typeof body.language === 'string' && Object.hasOwn(PROMPT_LANGUAGES, body.language)
+      ? body.language
+      : DEFAULT_PROMPT_LANGUAGE;
+    const sessionKey = req.headers.get('x-session-id') || logContext.sessionId;
+    const experiment = await assignExperimentArm(supabase, language, sessionKey);
+
+    // The vendor is chosen by environment configuration; the prompt is provider-neutral
+    const mockScenario = req.headers.get('x-mock-scenario');
+    const provider = createProviderFromEnv({ mockScenario, model: experiment?.model });
+    const fallbackProvider = createFallbackProviderFromEnv({ mockScenario });
+
+    // Every request reaching a model costs money, so limits are checked before anything else happens
+    await consumeAnalysisQuota(supabase, {
+      ip: getClientIp(req),
+      userId: logContext.userId,
+      isBillable: provider.name !== 'mock',
+    });
+    // Requests refused by our own limits never ran either arm, so only later rows are stamped
+    logContext.experiment = experiment;
 
-Write a simple, reassuring summary for patients using 4–6 bullet points.
-Tone: warm, clear, non-technical.
-No treatment instructions.
-Explain only:
-• What is visible
-• Why it matters
-• Typical orthodontic goals
-• That next steps are determined by their orthodontist
+    console.log(`Analyzing ${images.length} orthodontic image(s)...`);
+    console.log(`Using ${provider.name} provider with model ${provider.model}` +
+      (fallbackProvider ? `, falling back to ${fallbackProvider.name} ${fallbackProvider.model}` : ''));
+
+    const promptTemplate = experiment
+      ? await loadPromptTemplateById(supabase, experiment.templateId)
+      : await loadActivePromptTemplate(supabase, language);
+    logContext.prompt = { id: promptTemplate.id, version: promptTemplate.version, language: promptTemplate.language };
+    console.log(`Using prompt version ${promptTemplate.version} (${promptTemplate.language})` +
+      (experiment ? `, experiment ${experiment.experimentId} arm ${experiment.arm}` : ''));
+    // Returned with the report so the clinician can see which prompt produced it
+    const promptVersion = { version: promptTemplate.version, language: promptTemplate.language };
+    // Also returned with the report; a rating names the analysis it is for, and
+    // record_report_rating takes the experiment arm from the analysis_success row
+    const analysisId = crypto.randomUUID();
 
-This section must be no longer than 6–7 lines.
+    // Log upload event
+    await logUsageEvent(logContext, 'upload', { image_count: images.length, image_types: viewTypes });
 
-⸻
+    const imageList = viewTypes
+      .map((viewType, index) => `• Image ${index + 1}: ${viewType ? VIEW_TYPE_DESCRIPTIONS[viewType] : 'view not specified'}`)
+      .join('\n');
 
-GLOBAL STYLE RULES
-• Clean headings
-• Generous spacing
-• No long paragraphs
-• No hedging language ("maybe," "possibly")
-• No invented findings
-• No diagnosis
-• No definitive treatment plans
-• Confident, clinical, objective tone
+    const systemPrompt = promptTemplate.systemPrompt;
+    const userPrompt = renderPromptTemplate(promptTemplate.userPromptTemplate, {
+      imageCount: String(images.length),
+      imageList,
+    });
 
-Preserve all blank lines and do not collapse spacing.
+    // Each image is preceded by its label so the model can tell the views apart
+    const labelledImages = images.map((imageUrl: string, index: number) => {
+      const viewType = viewTypes[index];
+      return {
+        dataUrl: imageUrl,
+        label: `Image ${index + 1}${viewType ? ` (${VIEW_TYPE_DESCRIPTIONS[viewType]})` : ''}:`,
+      };
+    });
 
-Format your response in clean, semantic HTML:
-- Use <h2> for main sections (e.g., "Orthodontic Evaluation Report", "Radiographic Findings", "Problem List")
-- Use <h3> for subsections when needed
-- Use <ul> or <ol> for lists with proper <li> elements
-- Use <p> for paragraphs with clear spacing
-- Use <strong> for emphasis on key findings and labels (e.g., "Midlines:", "Overjet:")
-- Keep the HTML clean and well-structured for professional readability`;
+    const analysisRequest = {
+      systemPrompt,
+      userPrompt,
+      images: labelledImages,
+      maxOutputTokens: 2000,
+      responseSchema: { name: 'orthodontic_report', schema: ORTHODONTIC_REPORT_JSON_SCHEMA },
+    };
+
+    // Runs the model and logs the outcome. Progress is reported through emit
+    // as the model output streams in; the JSON response path ignores it.
+    const runAnalysis = async (
+      emit: (event: string, data: unknown) => void = () => {},
+      signal?: AbortSignal
+    ): Promise<OrthodonticReport> => {
+      let hasStarted = false;
+      let sectionsReceived = 0;
+      const sectionParser = createSectionParser((key, value) => {
+        sectionsReceived++;
+        emit('section', { key, value, index: sectionsReceived, total: REPORT_SECTIONS.length });
+      });
 
-    const userPrompt = `Here are ${images.length} orthodontic images for evaluation. Please analyze all images together and generate the full structured report using the exact format and spacing rules in the system prompt.`;
+      const result = await analyzeWithRetries({
+        providers: fallbackProvider ? [provider, fallbackProvider] : [provider],
+        request: analysisRequest,
+        maxAttempts: MAX_ATTEMPTS,
+        deadlineMs: DEADLINE_MS,
+        signal,
+        onText: (delta, activeProvider) => {
+          if (!hasStarted) {
+            hasStarted = true;
+            emit('stage', { stage: 'model_started', provider: activeProvider.name, model: activeProvider.model });
+          }
+          sectionParser.push(delta);
+        },
+        onAttemptFailed: (attempt) => logContext.failedAttempts.push(attempt),
+      });
 
-    // Build the content array with text and all images
-    const contentArray: any[] = [
-      {
-        type: 'text',
-        text: userPrompt
-      }
-    ];
-
-    // Add all images to the content
-    images.forEach((imageUrl: string) => {
-      contentArray.push({
-        type: 'image_url',
-        image_url: {
-          url: imageUrl
-        }
+      emit('stage', { stage: 'finalizing' });
+      const report = parseReport(result.text);
+
+      console.log('Analysis complete');
+
+      // Log successful analysis
+      await logUsageEvent(logContext, 'analysis_success', {
+        analysis_id: analysisId,
+        image_count: images.length,
+        provider: result.provider,
+        model: result.model,
+        input_tokens: result.inputTokens ?? null,
+        output_tokens: result.outputTokens ?? null,
+        output_chars: result.text.length,
+        duration_ms: Date.now() - logContext.startedAt,
+        section_counts: Object.fromEntries(REPORT_LIST_SECTIONS.map((section) => [section, report[section].length])),
+        // Retries and fallbacks that preceded this success
+        failed_attempts: logContext.failedAttempts,
       });
-    });
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4.1-2025-04-14',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: contentArray
+      return report;
+    };
+
+    // The analyzer asks for a stream so its progress bar follows real stages;
+    // other callers get a single JSON response
+    if (req.headers.get('accept')?.includes('text/event-stream')) {
+      const encoder = new TextEncoder();
+      // Set when the client disconnects; the model call is abandoned and nothing more is sent
+      const disconnect = new AbortController();
+      const stream = new ReadableStream({
+        async start(controller) {
+          const send = (event: string, data: unknown) => {
+            if (disconnect.signal.aborted) return;
+            controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+          };
+          try {
+            send('stage', { stage: 'received', imageCount: images.length });
+            const report = await runAnalysis(send, disconnect.signal);
+            send('report', { report, prompt: promptVersion, analysisId });
+          } catch (error) {
+            // A client that went away isn't an analysis failure, so it stays out of the error stats
+            if (disconnect.signal.aborted) {
+              console.log('Client disconnected; analysis abandoned');
+              return;
+            }
+            // Headers are already sent, so failures are reported as an event
+            const { message, ...failure } = await handleAnalysisError(logContext, error);
+            send('error', { error: message, ...failure });
+          } finally {
+            if (!disconnect.signal.aborted) controller.close();
           }
-        ],
-        max_completion_tokens: 2000
-      }),
-    });
+        },
+        cancel() {
+          disconnect.abort();
+        },
+      });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', errorText);
-      throw new Error(`OpenAI API error: ${response.status}`);
+      return new Response(stream, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+        },
+      });
     }
 
-    const data = await response.json();
-    const analysis = data.choices[0].message.content;
-
-    // Remove markdown code block delimiters
-    const cleanedAnalysis = analysis
-      .replace(/```html\n?/g, '')
-      .replace(/```\n?/g, '')
-      .trim();
-
-    console.log('Analysis complete');
-
-    // Log successful analysis
-    await supabase.from('orthodontic_usage_logs').insert({
-      event_type: 'analysis_success',
-      session_id: sessionId,
-      metadata: { image_count: images.length }
-    });
+    const report = await runAnalysis();
 
     return new Response(
-      JSON.stringify({ analysis: cleanedAnalysis }),
+      JSON.stringify({ report, prompt: promptVersion, analysisId }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       }
     );
   } catch (error) {
-    console.error('Error in analyze-orthodontic-image function:', error);
-    
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    const errorStack = error instanceof Error ? error.stack : undefined;
-    
-    // Log error event
-    await supabase.from('orthodontic_usage_logs').insert({
-      event_type: 'analysis_error',
-      session_id: sessionId,
-      error_message: errorMessage,
-      metadata: { error_stack: errorStack }
-    });
+    const { message, status, ...failure } = await handleAnalysisError(logContext, error);
 
     return new Response(
-      JSON.stringify({ error: errorMessage }),
+      JSON.stringify({ error: message, ...failure }),
       {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          ...(failure.retryAfterSeconds && { 'Retry-After': String(failure.retryAfterSeconds) }),
+        },
       }
     );
   }
@@ -0,0 +1,124 @@
+import { ProviderError, type AnalysisRequest, type AnalysisResult, type ModelProvider } from './providers/index.ts';
+
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+
+// The overall deadline passed before any provider produced a result
+export class DeadlineExceededError extends Error {
+  constructor(deadlineMs: number) {
+    super(`Analysis did not finish within ${Math.round(deadlineMs / 1000)} seconds`);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+// Rate limits, vendor outages and dropped connections are worth another try; anything else isn't
+const isRetryable = (error: unknown) =>
+  error instanceof ProviderError
+    ? !error.kind && (error.status === 429 || error.status >= 500)
+    : error instanceof TypeError;
+
+// Full jitter: a random delay up to the exponential backoff, or the vendor's Retry-After if longer
+const backoffDelay = (attempt: number, error: unknown) => {
+  const backoff = Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+  const retryAfterMs = error instanceof ProviderError && error.retryAfterSeconds ? error.retryAfterSeconds * 1000 : 0;
+  return Math.max(backoff, retryAfterMs);
+};
+
+// Resolves after ms, or rejects as soon as the signal aborts
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+export interface FailedAttempt {
+  provider: string;
+  model: string;
+  error: string;
+}
+
+interface AnalyzeWithRetriesOptions {
+  // Tried in order: the primary provider, then the fallback if there is one
+  providers: ModelProvider[];
+  request: AnalysisRequest;
+  maxAttempts: number;
+  deadlineMs: number;
+  // Aborted when the result is no longer wanted, e.g. the client disconnected
+  signal?: AbortSignal;
+  onText?: (delta: string, provider: ModelProvider) => void;
+  // Called for every failed attempt, including the last, so they can be logged
+  onAttemptFailed?: (attempt: FailedAttempt) => void;
+}
+
+/**
+ * Runs the analysis with bounded retries and jittered backoff, moving on to
+ * the next provider once one is exhausted, all within an overall deadline.
+ *
+ * An attempt that has already streamed output is never retried, since that
+ * output has been forwarded to the client. Any other failure of a provider,
+ * retryable or not (a bad key or model name answers 401 or 404), moves on to
+ * the fallback. The mock provider's failures are scripted, so it gets a
+ * single attempt.
+ */
+export const analyzeWithRetries = async ({
+  providers,
+  request,
+  maxAttempts,
+  deadlineMs,
+  signal,
+  onText,
+  onAttemptFailed,
+}: AnalyzeWithRetriesOptions): Promise<AnalysisResult> => {
+  const deadline = Date.now() + deadlineMs;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), deadlineMs);
+  signal?.addEventListener('abort', () => controller.abort(), { once: true });
+  let lastError: unknown;
+
+  try {
+    for (const provider of providers) {
+      const providerAttempts = provider.name === 'mock' ? 1 : maxAttempts;
+      for (let attempt = 1; attempt <= providerAttempts; attempt++) {
+        let hasOutput = false;
+        try {
+          return await provider.analyze({ ...request, signal: controller.signal }, (delta) => {
+            hasOutput = true;
+            onText?.(delta, provider);
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          // Abandoned by the caller: not a failure of the attempt, and nothing to retry
+          if (signal?.aborted) throw error;
+
+          onAttemptFailed?.({ provider: provider.name, model: provider.model, error: message });
+          if (controller.signal.aborted) {
+            throw new DeadlineExceededError(deadlineMs);
+          }
+
+          lastError = error;
+          if (hasOutput) {
+            throw error;
+          }
+
+          const delayMs = backoffDelay(attempt, error);
+          // Not worth retrying, out of attempts, or the wait would outlast the deadline: move on to the fallback
+          if (!isRetryable(error) || attempt === providerAttempts || Date.now() + delayMs >= deadline) break;
+
+          console.warn(`${provider.name} attempt ${attempt} failed (${message}); retrying in ${Math.round(delayMs)} ms`);
+          // A cancelled request stops waiting at once rather than sleeping out the backoff
+          await sleep(delayMs, controller.signal).catch((reason) => {
+            throw signal?.aborted ? reason : new DeadlineExceededError(deadlineMs);
+          });
+        }
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+
+  throw lastError;
+};
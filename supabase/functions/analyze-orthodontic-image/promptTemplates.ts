@@ -0,0 +1,76 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DEFAULT_PROMPT_LANGUAGE } from '../_shared/promptTemplates.ts';
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  language: string;
+  systemPrompt: string;
+  userPromptTemplate: string;
+}
+
+// No usable template could be loaded. Running without the admin-activated
+// prompt would go unnoticed, so the analysis fails instead.
+export class PromptTemplateUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateUnavailableError';
+  }
+}
+
+interface PromptTemplateRow {
+  id: string;
+  version: number;
+  language: string;
+  system_prompt: string;
+  user_prompt_template: string;
+}
+
+const toPromptTemplate = (row: PromptTemplateRow): PromptTemplate => ({
+  id: row.id,
+  version: row.version,
+  language: row.language,
+  systemPrompt: row.system_prompt,
+  userPromptTemplate: row.user_prompt_template,
+});
+
+/**
+ * Loads the active template for the requested language, falling back to the
+ * active English template. Read on every request, so activating a version
+ * takes effect without a redeploy. Throws PromptTemplateUnavailableError when
+ * the table can't be read or has no active English version.
+ */
+export const loadActivePromptTemplate = async (supabase: SupabaseClient, language: string): Promise<PromptTemplate> => {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('id, version, language, system_prompt, user_prompt_template')
+    .eq('is_active', true)
+    .in('language', [language, DEFAULT_PROMPT_LANGUAGE]);
+
+  if (error) {
+    throw new PromptTemplateUnavailableError(`Unable to load prompt templates: ${error.message}`);
+  }
+
+  const row = data?.find((template: { language: string }) => template.language === language) ?? data?.[0];
+  if (!row) {
+    throw new PromptTemplateUnavailableError(`No active prompt template for ${language} or ${DEFAULT_PROMPT_LANGUAGE}`);
+  }
+  return toPromptTemplate(row);
+};
+
+/**
+ * Loads a specific version, as pinned by an experiment arm. Throws
+ * PromptTemplateUnavailableError rather than running the arm on another version.
+ */
+export const loadPromptTemplateById = async (supabase: SupabaseClient, id: string): Promise<PromptTemplate> => {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('id, version, language, system_prompt, user_prompt_template')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new PromptTemplateUnavailableError(`Unable to load prompt template ${id}${error ? `: ${error.message}` : ''}`);
+  }
+  return toPromptTemplate(data);
+};
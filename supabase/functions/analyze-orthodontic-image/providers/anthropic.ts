@@ -0,0 +1,102 @@
+import { ProviderError, providerErrorFromResponse, type AnalysisRequest, type AnalysisResult, type ModelProvider } from './types.ts';
+import { readServerSentEvents } from '../../_shared/serverSentEvents.ts';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicProviderOptions {
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+}
+
+// The Messages API takes raw base64 with a separate media type instead of a data URL
+const toImageBlock = (dataUrl: string) => {
+  if (dataUrl.startsWith('https://')) {
+    return { type: 'image', source: { type: 'url', url: dataUrl } };
+  }
+  const match = dataUrl.match(/^data:(image\/[a-z+]+);base64,(.*)$/s);
+  if (!match) {
+    throw new Error('Images must be base64 data URLs or https URLs');
+  }
+  return { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } };
+};
+
+export const createAnthropicProvider = ({ apiKey, model, baseUrl }: AnthropicProviderOptions): ModelProvider => ({
+  name: 'anthropic',
+  model,
+  async analyze(request: AnalysisRequest, onText?: (delta: string) => void): Promise<AnalysisResult> {
+    const content: Record<string, unknown>[] = [{ type: 'text', text: request.userPrompt }];
+    request.images.forEach((image) => {
+      content.push({ type: 'text', text: image.label });
+      content.push(toImageBlock(image.dataUrl));
+    });
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      signal: request.signal,
+      body: JSON.stringify({
+        model,
+        system: request.systemPrompt,
+        messages: [{ role: 'user', content }],
+        max_tokens: request.maxOutputTokens,
+        stream: true,
+        // The Messages API has no JSON mode; a forced tool call returns input matching the schema
+        ...(request.responseSchema && {
+          tools: [{
+            name: request.responseSchema.name,
+            description: 'Submit the structured result',
+            input_schema: request.responseSchema.schema,
+          }],
+          tool_choice: { type: 'tool', name: request.responseSchema.name },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await providerErrorFromResponse('Anthropic', response);
+    }
+
+    // With a forced tool call the report arrives as input_json_delta chunks of the tool input
+    let text = '';
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    let stopReason: string | undefined;
+
+    await readServerSentEvents(response, (event, data) => {
+      const payload = JSON.parse(data);
+      if (event === 'message_start') {
+        inputTokens = payload.message?.usage?.input_tokens;
+      } else if (event === 'content_block_delta') {
+        const delta: string | undefined = payload.delta?.text ?? payload.delta?.partial_json;
+        if (delta) {
+          text += delta;
+          onText?.(delta);
+        }
+      } else if (event === 'message_delta') {
+        outputTokens = payload.usage?.output_tokens;
+        stopReason = payload.delta?.stop_reason ?? stopReason;
+      } else if (event === 'error') {
+        // Errors after the stream has started arrive as events rather than HTTP statuses
+        const errorType: string = payload.error?.type ?? 'unknown_error';
+        throw new ProviderError(`Anthropic API error: ${errorType}`, errorType === 'overloaded_error' ? 529 : 500);
+      }
+    });
+
+    if (stopReason === 'refusal') {
+      throw new ProviderError('Model refused to analyze the images', response.status, undefined, 'content_refused');
+    }
+
+    return {
+      text,
+      provider: 'anthropic',
+      model,
+      inputTokens,
+      outputTokens,
+    };
+  },
+});
@@ -0,0 +1,39 @@
+import { providerErrorFromResponse, type AnalysisRequest, type AnalysisResult, type ModelProvider } from './types.ts';
+import { buildChatCompletionsBody, readChatCompletionsStream } from './openai.ts';
+
+interface AzureOpenAIProviderOptions {
+  apiKey: string;
+  // e.g. https://my-resource.openai.azure.com
+  endpoint: string;
+  // Azure routes by deployment name rather than model id
+  deployment: string;
+  apiVersion: string;
+}
+
+export const createAzureOpenAIProvider = ({
+  apiKey,
+  endpoint,
+  deployment,
+  apiVersion,
+}: AzureOpenAIProviderOptions): ModelProvider => ({
+  name: 'azure',
+  model: deployment,
+  async analyze(request: AnalysisRequest, onText?: (delta: string) => void): Promise<AnalysisResult> {
+    const url = `${endpoint.replace(/\/$/, '')}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${apiVersion}`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'api-key': apiKey,
+        'Content-Type': 'application/json',
+      },
+      signal: request.signal,
+      body: JSON.stringify(buildChatCompletionsBody(request)),
+    });
+
+    if (!response.ok) {
+      throw await providerErrorFromResponse('Azure OpenAI', response);
+    }
+
+    return { provider: 'azure', model: deployment, ...(await readChatCompletionsStream(response, onText)) };
+  },
+});
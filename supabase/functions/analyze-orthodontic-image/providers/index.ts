@@ -0,0 +1,85 @@
+import type { ModelProvider } from './types.ts';
+import { createOpenAIProvider } from './openai.ts';
+import { createAnthropicProvider } from './anthropic.ts';
+import { createAzureOpenAIProvider } from './azure.ts';
+import { createMockProvider } from './mock.ts';
+
+export type { AnalysisImage, AnalysisRequest, AnalysisResult, ModelProvider } from './types.ts';
+export { ProviderError } from './types.ts';
+
+const requireEnv = (name: string): string => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+};
+
+const parseHashScenarios = (): Record<string, string> => {
+  try {
+    return JSON.parse(Deno.env.get('MOCK_HASH_SCENARIOS') || '{}');
+  } catch {
+    console.error('MOCK_HASH_SCENARIOS is not valid JSON; ignoring it');
+    return {};
+  }
+};
+
+interface ProviderOptions {
+  // x-mock-scenario header; ignored unless the mock provider is selected
+  mockScenario?: string | null;
+  // Model pinned by an experiment arm; takes precedence over ANALYSIS_MODEL
+  model?: string | null;
+}
+
+const createProvider = (providerName: string, model: string | undefined, { mockScenario }: ProviderOptions): ModelProvider => {
+  switch (providerName.toLowerCase()) {
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: requireEnv('OPENAI_API_KEY'),
+        model: model || 'gpt-4.1-2025-04-14',
+        baseUrl: Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1',
+      });
+    case 'anthropic':
+      return createAnthropicProvider({
+        apiKey: requireEnv('ANTHROPIC_API_KEY'),
+        model: model || 'claude-sonnet-4-20250514',
+        baseUrl: Deno.env.get('ANTHROPIC_BASE_URL') || 'https://api.anthropic.com',
+      });
+    case 'azure':
+      return createAzureOpenAIProvider({
+        apiKey: requireEnv('AZURE_OPENAI_API_KEY'),
+        endpoint: requireEnv('AZURE_OPENAI_ENDPOINT'),
+        deployment: model || requireEnv('AZURE_OPENAI_DEPLOYMENT'),
+        apiVersion: Deno.env.get('AZURE_OPENAI_API_VERSION') || '2024-10-21',
+      });
+    case 'mock':
+      return createMockProvider({ requestedScenario: mockScenario, scenariosByHash: parseHashScenarios() });
+    default:
+      throw new Error(`Unknown analysis provider: ${providerName}`);
+  }
+};
+
+/**
+ * Selects the model provider from the ANALYSIS_PROVIDER environment variable
+ * (openai, anthropic, azure or mock; defaults to openai). ANALYSIS_MODEL
+ * overrides the provider's default model.
+ */
+export const createProviderFromEnv = (options: ProviderOptions = {}): ModelProvider =>
+  createProvider(
+    Deno.env.get('ANALYSIS_PROVIDER') || 'openai',
+    options.model || Deno.env.get('ANALYSIS_MODEL'),
+    options
+  );
+
+/**
+ * Provider to fall back to once the primary is exhausted, from
+ * ANALYSIS_FALLBACK_PROVIDER and ANALYSIS_FALLBACK_MODEL. Setting only the
+ * model falls back to another model of the primary provider. Returns null
+ * when no fallback is configured.
+ */
+export const createFallbackProviderFromEnv = (options: ProviderOptions = {}): ModelProvider | null => {
+  const providerName = Deno.env.get('ANALYSIS_FALLBACK_PROVIDER');
+  const model = Deno.env.get('ANALYSIS_FALLBACK_MODEL');
+  if (!providerName && !model) return null;
+  return createProvider(providerName || Deno.env.get('ANALYSIS_PROVIDER') || 'openai', model, options);
+};
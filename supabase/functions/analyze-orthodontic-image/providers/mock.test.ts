@@ -0,0 +1,35 @@
+import { assert, assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createMockProvider } from './mock.ts';
+import type { AnalysisRequest } from './types.ts';
+import { buildMockReport, hashMockImage } from '../../_shared/mockAnalysis.ts';
+import { validateOrthodonticReport } from '../../_shared/orthodonticReport.ts';
+
+const image = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+const request: AnalysisRequest = {
+  systemPrompt: 'system',
+  userPrompt: 'user',
+  images: [{ dataUrl: image, label: 'Image 1 (panoramic radiograph):' }],
+  maxOutputTokens: 4000,
+};
+
+Deno.test('mock provider streams a report that passes validation', async () => {
+  const chunks: string[] = [];
+  const result = await createMockProvider().analyze(request, (delta) => chunks.push(delta));
+
+  assertEquals(chunks.join(''), result.text);
+  const validation = validateOrthodonticReport(JSON.parse(result.text));
+  assert(validation.valid, validation.valid ? undefined : validation.errors.join('; '));
+});
+
+Deno.test('mock provider returns the report the analyzer builds locally for the same image', async () => {
+  const result = await createMockProvider().analyze(request);
+
+  assertEquals(JSON.parse(result.text), buildMockReport(await hashMockImage(image)));
+});
+
+Deno.test('malformed scenario returns truncated output', async () => {
+  const result = await createMockProvider({ requestedScenario: 'malformed' }).analyze(request);
+
+  assertThrows(() => JSON.parse(result.text), SyntaxError);
+});
@@ -0,0 +1,76 @@
+import { ProviderError, type AnalysisRequest, type AnalysisResult, type ModelProvider } from './types.ts';
+import {
+  buildMockReport,
+  hashMockImage,
+  isMockAnalysisScenario,
+  MOCK_SLOW_RESPONSE_MS,
+  type MockAnalysisScenario,
+} from '../../_shared/mockAnalysis.ts';
+
+const STREAM_CHUNK_SIZE = 40;
+const STREAM_CHUNK_DELAY_MS = 25;
+
+// Rejects early when the request is aborted, as a real vendor call would
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+interface MockProviderOptions {
+  // From the x-mock-scenario request header; overrides everything else
+  requestedScenario?: string | null;
+  // Image hash (or hash prefix) to scenario, so fixture images always behave the same way
+  scenariosByHash?: Record<string, string>;
+}
+
+/**
+ * Deterministic stand-in for a model vendor, for offline development and
+ * tests. The report comes from _shared/mockAnalysis.ts, which the analyzer's
+ * local mock mode uses too.
+ *
+ * The scenario comes from the x-mock-scenario header, then from
+ * MOCK_HASH_SCENARIOS by the SHA-256 of the first image, and defaults to
+ * success. Only active when ANALYSIS_PROVIDER=mock.
+ */
+export const createMockProvider = ({ requestedScenario, scenariosByHash = {} }: MockProviderOptions = {}): ModelProvider => ({
+  name: 'mock',
+  model: 'mock',
+  async analyze(request: AnalysisRequest, onText?: (delta: string) => void): Promise<AnalysisResult> {
+    const imageHash = await hashMockImage(request.images[0]?.dataUrl ?? '');
+    const hashScenario = Object.entries(scenariosByHash).find(([hashPrefix]) => imageHash.startsWith(hashPrefix))?.[1];
+    const scenario: MockAnalysisScenario = isMockAnalysisScenario(requestedScenario)
+      ? requestedScenario
+      : isMockAnalysisScenario(hashScenario) ? hashScenario : 'success';
+
+    console.log(`Mock provider: scenario ${scenario} for image hash ${imageHash}`);
+
+    switch (scenario) {
+      case 'rate_limited':
+        throw new ProviderError('Mock API error: 429', 429, 30);
+      case 'server_error':
+        throw new ProviderError('Mock API error: 500', 500);
+      case 'refused':
+        throw new ProviderError('Mock model refused to analyze the images', 200, undefined, 'content_refused');
+      case 'slow':
+        await delay(MOCK_SLOW_RESPONSE_MS, request.signal);
+        break;
+    }
+
+    const fullText = JSON.stringify(buildMockReport(imageHash), null, 2);
+    // Malformed output is cut off mid-string, as when a response is truncated
+    const text = scenario === 'malformed' ? fullText.slice(0, fullText.length / 3) : fullText;
+
+    // Stream in small chunks so section-by-section rendering can be exercised
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      onText?.(text.slice(i, i + STREAM_CHUNK_SIZE));
+      await delay(STREAM_CHUNK_DELAY_MS, request.signal);
+    }
+
+    return { text, provider: 'mock', model: 'mock', inputTokens: 0, outputTokens: 0 };
+  },
+});
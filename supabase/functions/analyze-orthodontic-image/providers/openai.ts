@@ -0,0 +1,97 @@
+import { ProviderError, providerErrorFromResponse, type AnalysisRequest, type AnalysisResult, type ModelProvider } from './types.ts';
+import { readServerSentEvents } from '../../_shared/serverSentEvents.ts';
+
+// Chat Completions body shared by OpenAI-compatible endpoints and Azure OpenAI
+export const buildChatCompletionsBody = (request: AnalysisRequest) => {
+  const content: Record<string, unknown>[] = [{ type: 'text', text: request.userPrompt }];
+  request.images.forEach((image) => {
+    content.push({ type: 'text', text: image.label });
+    content.push({ type: 'image_url', image_url: { url: image.dataUrl } });
+  });
+
+  return {
+    messages: [
+      { role: 'system', content: request.systemPrompt },
+      { role: 'user', content },
+    ],
+    max_completion_tokens: request.maxOutputTokens,
+    stream: true,
+    ...(request.responseSchema && {
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: request.responseSchema.name, strict: true, schema: request.responseSchema.schema },
+      },
+    }),
+  };
+};
+
+interface ChatCompletionsChunk {
+  choices?: { delta?: { content?: string; refusal?: string }; finish_reason?: string | null }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+// Collects a streamed Chat Completions response, forwarding content deltas as they arrive
+export const readChatCompletionsStream = async (response: Response, onText?: (delta: string) => void) => {
+  let text = '';
+  let inputTokens: number | undefined;
+  let outputTokens: number | undefined;
+  let isRefused = false;
+
+  await readServerSentEvents(response, (_event, data) => {
+    if (data === '[DONE]') return;
+    const chunk: ChatCompletionsChunk = JSON.parse(data);
+    const choice = chunk.choices?.[0];
+    const delta = choice?.delta?.content;
+    if (delta) {
+      text += delta;
+      onText?.(delta);
+    }
+    // Structured outputs report a refusal in its own field instead of the content
+    if (choice?.delta?.refusal || choice?.finish_reason === 'content_filter') {
+      isRefused = true;
+    }
+    if (chunk.usage) {
+      inputTokens = chunk.usage.prompt_tokens;
+      outputTokens = chunk.usage.completion_tokens;
+    }
+  });
+
+  if (isRefused) {
+    throw new ProviderError('Model refused to analyze the images', response.status, undefined, 'content_refused');
+  }
+  return { text, inputTokens, outputTokens };
+};
+
+interface OpenAIProviderOptions {
+  apiKey: string;
+  model: string;
+  // Any endpoint that implements the Chat Completions API
+  baseUrl: string;
+}
+
+export const createOpenAIProvider = ({ apiKey, model, baseUrl }: OpenAIProviderOptions): ModelProvider => ({
+  name: 'openai',
+  model,
+  async analyze(request: AnalysisRequest, onText?: (delta: string) => void): Promise<AnalysisResult> {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      signal: request.signal,
+      body: JSON.stringify({
+        model,
+        ...buildChatCompletionsBody(request),
+        // Token usage arrives in a final chunk with no choices
+        stream_options: { include_usage: true },
+      }),
+    });
+
+    if (!response.ok) {
+      throw await providerErrorFromResponse('OpenAI', response);
+    }
+
+    return { provider: 'openai', model, ...(await readChatCompletionsStream(response, onText)) };
+  },
+});
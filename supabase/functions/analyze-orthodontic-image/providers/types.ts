@@ -0,0 +1,69 @@
+// Provider-neutral shapes shared by every model adapter
+
+export interface AnalysisImage {
+  // data:image/...;base64 URL as sent by the analyzer, or an allowed https storage URL
+  dataUrl: string;
+  // Text placed immediately before the image, e.g. "Image 1 (panoramic radiograph):"
+  label: string;
+}
+
+export interface AnalysisRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  images: AnalysisImage[];
+  maxOutputTokens: number;
+  // When set, the provider constrains the output to JSON matching this schema
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+  // Aborts the vendor request, including a response that is still streaming
+  signal?: AbortSignal;
+}
+
+export interface AnalysisResult {
+  text: string;
+  provider: string;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface ModelProvider {
+  name: string;
+  model: string;
+  // Output is streamed from the vendor; onText receives each chunk as it arrives
+  analyze(request: AnalysisRequest, onText?: (delta: string) => void): Promise<AnalysisResult>;
+}
+
+// Error from the model vendor, carrying the upstream HTTP status.
+// kind is set when the vendor said why: the model refused, or couldn't read an image.
+export class ProviderError extends Error {
+  status: number;
+  retryAfterSeconds?: number;
+  kind?: 'content_refused' | 'invalid_image';
+
+  constructor(message: string, status: number, retryAfterSeconds?: number, kind?: ProviderError['kind']) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.kind = kind;
+  }
+}
+
+export const parseRetryAfter = (response: Response): number | undefined => {
+  const seconds = Number(response.headers.get('retry-after'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+};
+
+// Builds the ProviderError for a failed HTTP response, recognising refusals and unreadable images in the body
+export const providerErrorFromResponse = async (vendor: string, response: Response): Promise<ProviderError> => {
+  const errorText = await response.text();
+  console.error(`${vendor} API error:`, errorText);
+
+  let kind: ProviderError['kind'];
+  if (/content[_ ]?(filter|policy)|safety/i.test(errorText)) {
+    kind = 'content_refused';
+  } else if (response.status === 400 && /image/i.test(errorText)) {
+    kind = 'invalid_image';
+  }
+  return new ProviderError(`${vendor} API error: ${response.status}`, response.status, parseRetryAfter(response), kind);
+};
@@ -0,0 +1,102 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { AnalysisRateLimitType } from '../_shared/analysisRequest.ts';
+
+// Positive number from the environment, or undefined when unset or invalid
+const numberFromEnv = (name: string): number | undefined => {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+const readRateLimitConfig = () => ({
+  ipLimit: numberFromEnv('RATE_LIMIT_PER_IP') ?? 20,
+  sessionLimit: numberFromEnv('RATE_LIMIT_PER_SESSION') ?? 10,
+  windowSeconds: numberFromEnv('RATE_LIMIT_WINDOW_SECONDS') ?? 3600,
+  // Flat estimate per analysis, since the cost is only known once the model has answered
+  estimatedCostUsd: numberFromEnv('ANALYSIS_COST_ESTIMATE_USD') ?? 0.03,
+  // No cap unless configured
+  dailySpendCapUsd: numberFromEnv('ANALYSIS_DAILY_SPEND_CAP_USD') ?? null,
+});
+
+const LIMIT_MESSAGES: Record<Exclude<AnalysisRateLimitType, 'upstream'>, string> = {
+  ip: 'Too many analyses from this network',
+  session: 'Too many analyses in this session',
+  daily_spend: 'The daily analysis limit has been reached',
+};
+
+// Request refused by one of our own limits; returned to the client as a 429
+export class RateLimitError extends Error {
+  limit: AnalysisRateLimitType;
+  retryAfterSeconds: number;
+
+  constructor(limit: Exclude<AnalysisRateLimitType, 'upstream'>, retryAfterSeconds: number) {
+    super(LIMIT_MESSAGES[limit]);
+    this.name = 'RateLimitError';
+    this.limit = limit;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * The caller's IP as recorded by our own proxies. Each proxy appends the
+ * address it received the request from to x-forwarded-for, so only the
+ * rightmost TRUSTED_PROXY_HOPS entries (default 1, the Supabase gateway)
+ * can be trusted; anything to their left may have been sent by the caller.
+ */
+export const getClientIp = (req: Request): string => {
+  const trustedHops = Math.floor(numberFromEnv('TRUSTED_PROXY_HOPS') ?? 1);
+  const hops = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - trustedHops] || 'unknown';
+};
+
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Admits the request against the per-IP and per-session sliding windows and
+ * the daily spend cap, recording it if it fits. The session limit counts
+ * signed-in clinicians per user. Anonymous callers choose their own
+ * x-session-id, so a fresh one per request would get a fresh bucket each
+ * time; they are counted per IP under the session limit instead, which makes
+ * it a second, tighter per-IP limit for anonymous traffic. Throws
+ * RateLimitError when a limit is hit. If the quota check itself fails the
+ * request is let through, so a database problem can't take the analyzer down.
+ */
+export const consumeAnalysisQuota = async (
+  supabase: SupabaseClient,
+  { ip, userId, isBillable }: {
+    ip: string;
+    userId: string | null;
+    isBillable: boolean;
+  }
+): Promise<void> => {
+  const config = readRateLimitConfig();
+  const ipHash = await sha256Hex(ip);
+  const sessionKey = userId ? `user:${userId}` : `ip:${ipHash}`;
+
+  const { data, error } = await supabase.rpc('consume_analysis_quota', {
+    _ip_hash: ipHash,
+    _session_id: sessionKey,
+    _ip_limit: config.ipLimit,
+    _session_limit: config.sessionLimit,
+    _window_seconds: config.windowSeconds,
+    _estimated_cost_usd: isBillable ? config.estimatedCostUsd : 0,
+    _daily_spend_cap_usd: config.dailySpendCapUsd,
+  });
+
+  if (error) {
+    console.error('Rate limit check failed, allowing request:', error);
+    return;
+  }
+
+  const result = Array.isArray(data) ? data[0] : data;
+  if (result && !result.allowed) {
+    throw new RateLimitError(result.limit_type, result.retry_after_seconds);
+  }
+};
@@ -0,0 +1,132 @@
+import {
+  MAX_ANALYSIS_IMAGES,
+  MAX_IMAGE_BYTES,
+  MAX_TOTAL_IMAGE_BYTES,
+  type AnalysisRequestErrorCode,
+} from '../_shared/analysisRequest.ts';
+
+const MEGABYTE = 1024 * 1024;
+
+// File signatures of the accepted formats
+const IMAGE_SIGNATURES: Record<string, number[]> = {
+  'image/jpeg': [0xff, 0xd8, 0xff],
+  'image/png': [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+};
+
+const DATA_URL_PATTERN = /^data:(image\/(?:jpeg|png));base64,/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Rejected request; returned to the client as a 400 with the code
+export class RequestValidationError extends Error {
+  code: AnalysisRequestErrorCode;
+  imageIndex?: number;
+
+  constructor(code: AnalysisRequestErrorCode, message: string, imageIndex?: number) {
+    super(message);
+    this.name = 'RequestValidationError';
+    this.code = code;
+    this.imageIndex = imageIndex;
+  }
+}
+
+const parseUrl = (value: string): URL | null => {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+};
+
+// Same origin exactly, and a path at or below the prefix's path, so a prefix ending in
+// /cases doesn't also admit /cases-other and a bare origin doesn't admit look-alike hosts
+const isUnderUrlPrefix = (url: URL, prefix: string) => {
+  const allowed = parseUrl(prefix);
+  if (!allowed || allowed.protocol !== 'https:' || url.origin !== allowed.origin) return false;
+  const basePath = allowed.pathname.replace(/\/+$/, '');
+  return url.pathname === basePath || url.pathname.startsWith(`${basePath}/`);
+};
+
+const decodedLength = (base64: string) =>
+  Math.floor((base64.length * 3) / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+
+const startsWithSignature = (base64: string, signature: number[]) => {
+  // 12 base64 characters decode to 9 bytes, enough for the longest signature
+  const head = atob(base64.slice(0, 12));
+  return signature.every((byte, i) => head.charCodeAt(i) === byte);
+};
+
+/**
+ * Checks the images of an analysis request before anything is sent to a model.
+ *
+ * Each entry must be a base64 JPEG or PNG data URL whose decoded bytes start
+ * with the matching signature, or an https URL on the same origin as, and
+ * under the path of, one of allowedUrlPrefixes (e.g. a storage bucket), which
+ * is passed through without being downloaded.
+ */
+export const validateAnalysisImages = (images: unknown, allowedUrlPrefixes: string[] = []): string[] => {
+  if (!Array.isArray(images) || images.length === 0) {
+    throw new RequestValidationError('no_images', 'No images provided');
+  }
+  if (images.length > MAX_ANALYSIS_IMAGES) {
+    throw new RequestValidationError('too_many_images', `A case can contain up to ${MAX_ANALYSIS_IMAGES} images; ${images.length} were sent`);
+  }
+
+  let totalBytes = 0;
+  const validated = images.map((image, index): string => {
+    const imageNumber = index + 1;
+
+    if (typeof image !== 'string') {
+      throw new RequestValidationError('invalid_image_url', `Image ${imageNumber} is not a data URL`, index);
+    }
+
+    if (/^https:\/\//i.test(image)) {
+      // URL parsing resolves dot segments and separates credentials from the host before comparing
+      const url = parseUrl(image);
+      if (!url || url.username || url.password || !allowedUrlPrefixes.some((prefix) => isUnderUrlPrefix(url, prefix))) {
+        throw new RequestValidationError('invalid_image_url', `Image ${imageNumber} is not from an allowed storage location`, index);
+      }
+      // The normalized form is what was checked, so it's what the vendor is given
+      return url.href;
+    }
+
+    const match = image.match(DATA_URL_PATTERN);
+    if (!match) {
+      const isDataUrl = image.startsWith('data:');
+      throw new RequestValidationError(
+        isDataUrl ? 'unsupported_image_type' : 'invalid_image_url',
+        isDataUrl ? `Image ${imageNumber} must be a JPEG or PNG` : `Image ${imageNumber} is not a base64 image data URL`,
+        index
+      );
+    }
+
+    const base64 = image.slice(match[0].length);
+    if (base64.length < 12 || base64.length % 4 !== 0 || !BASE64_PATTERN.test(base64)) {
+      throw new RequestValidationError('invalid_image_data', `Image ${imageNumber} is not valid base64 data`, index);
+    }
+
+    const bytes = decodedLength(base64);
+    if (bytes > MAX_IMAGE_BYTES) {
+      throw new RequestValidationError(
+        'image_too_large',
+        `Image ${imageNumber} is ${(bytes / MEGABYTE).toFixed(1)} MB; the limit is ${MAX_IMAGE_BYTES / MEGABYTE} MB per image`,
+        index
+      );
+    }
+    totalBytes += bytes;
+
+    const mimeType = match[1];
+    if (!startsWithSignature(base64, IMAGE_SIGNATURES[mimeType])) {
+      throw new RequestValidationError('image_type_mismatch', `Image ${imageNumber} is not a valid ${mimeType === 'image/png' ? 'PNG' : 'JPEG'} file`, index);
+    }
+    return image;
+  });
+
+  if (totalBytes > MAX_TOTAL_IMAGE_BYTES) {
+    throw new RequestValidationError(
+      'payload_too_large',
+      `Images total ${(totalBytes / MEGABYTE).toFixed(1)} MB; the limit is ${MAX_TOTAL_IMAGE_BYTES / MEGABYTE} MB per case`
+    );
+  }
+
+  return validated;
+};
@@ -0,0 +1,54 @@
+/**
+ * Incrementally scans streamed JSON text and reports each top-level
+ * property of the report object as soon as its value is complete, so
+ * sections can be sent to the browser before the whole report arrives.
+ * Anything before the opening brace (e.g. a code fence) is ignored.
+ */
+export const createSectionParser = (onSection: (key: string, value: unknown) => void) => {
+  let buffer = '';
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let isEscaped = false;
+  let segmentStart = -1;
+
+  const emitSegment = (end: number) => {
+    const segment = buffer.slice(segmentStart, end).trim();
+    segmentStart = end + 1;
+    if (!segment) return;
+    try {
+      const [[key, value]] = Object.entries(JSON.parse(`{${segment}}`));
+      onSection(key, value);
+    } catch {
+      // Incomplete or invalid section; the final validation reports the problem
+    }
+  };
+
+  return {
+    push(text: string) {
+      buffer += text;
+      for (; position < buffer.length; position++) {
+        const char = buffer[position];
+
+        if (inString) {
+          if (isEscaped) isEscaped = false;
+          else if (char === '\\') isEscaped = true;
+          else if (char === '"') inString = false;
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+        } else if (char === '{' || char === '[') {
+          depth++;
+          if (depth === 1) segmentStart = position + 1;
+        } else if (char === '}' || char === ']') {
+          depth--;
+          if (depth === 0) emitSegment(position);
+        } else if (char === ',' && depth === 1) {
+          emitSegment(position);
+        }
+      }
+    },
+  };
+};
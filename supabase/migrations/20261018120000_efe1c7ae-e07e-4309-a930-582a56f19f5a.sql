@@ -0,0 +1,96 @@
+-- One row per analysis request admitted by analyze-orthodontic-image.
+-- Used for sliding-window rate limits and the daily spend cap.
+CREATE TABLE public.analysis_rate_limit_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- SHA-256 of the client IP; raw addresses are never stored
+  ip_hash TEXT NOT NULL,
+  session_id TEXT,
+  estimated_cost_usd NUMERIC(10, 4) NOT NULL DEFAULT 0
+);
+
+-- Enable Row Level Security
+-- No policies: only the edge function, using the service role, reads and writes this table
+ALTER TABLE public.analysis_rate_limit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_analysis_rate_limit_ip ON public.analysis_rate_limit_events(ip_hash, created_at DESC);
+CREATE INDEX idx_analysis_rate_limit_session ON public.analysis_rate_limit_events(session_id, created_at DESC);
+CREATE INDEX idx_analysis_rate_limit_created_at ON public.analysis_rate_limit_events(created_at DESC);
+
+-- Checks every limit and, if all pass, records the request in one transaction.
+-- Returns the limit that was hit and the seconds until a slot frees up.
+-- Days for the spend cap are counted in the database time zone (UTC on Supabase).
+CREATE OR REPLACE FUNCTION public.consume_analysis_quota(
+  _ip_hash TEXT,
+  _session_id TEXT,
+  _ip_limit INTEGER,
+  _session_limit INTEGER,
+  _window_seconds INTEGER,
+  _estimated_cost_usd NUMERIC,
+  _daily_spend_cap_usd NUMERIC
+)
+RETURNS TABLE (allowed BOOLEAN, limit_type TEXT, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _window INTERVAL := make_interval(secs => _window_seconds);
+  _spent NUMERIC;
+  _frees_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Serialize admissions so concurrent requests can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext('consume_analysis_quota'));
+
+  -- Rows older than the longest window are no longer needed
+  DELETE FROM public.analysis_rate_limit_events
+  WHERE created_at < now() - GREATEST(_window, INTERVAL '1 day');
+
+  IF _daily_spend_cap_usd IS NOT NULL THEN
+    SELECT COALESCE(SUM(estimated_cost_usd), 0) INTO _spent
+    FROM public.analysis_rate_limit_events
+    WHERE created_at >= date_trunc('day', now());
+
+    IF _spent + _estimated_cost_usd > _daily_spend_cap_usd THEN
+      RETURN QUERY SELECT false, 'daily_spend'::TEXT,
+        CEIL(EXTRACT(EPOCH FROM date_trunc('day', now()) + INTERVAL '1 day' - now()))::INTEGER;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Sliding window: once the limit-th most recent request leaves the window, a slot is free
+  SELECT created_at + _window INTO _frees_at
+  FROM public.analysis_rate_limit_events
+  WHERE ip_hash = _ip_hash AND created_at > now() - _window
+  ORDER BY created_at DESC
+  OFFSET _ip_limit - 1
+  LIMIT 1;
+
+  IF _frees_at IS NOT NULL THEN
+    RETURN QUERY SELECT false, 'ip'::TEXT, GREATEST(1, CEIL(EXTRACT(EPOCH FROM _frees_at - now())))::INTEGER;
+    RETURN;
+  END IF;
+
+  IF _session_id IS NOT NULL THEN
+    SELECT created_at + _window INTO _frees_at
+    FROM public.analysis_rate_limit_events
+    WHERE session_id = _session_id AND created_at > now() - _window
+    ORDER BY created_at DESC
+    OFFSET _session_limit - 1
+    LIMIT 1;
+
+    IF _frees_at IS NOT NULL THEN
+      RETURN QUERY SELECT false, 'session'::TEXT, GREATEST(1, CEIL(EXTRACT(EPOCH FROM _frees_at - now())))::INTEGER;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.analysis_rate_limit_events (ip_hash, session_id, estimated_cost_usd)
+  VALUES (_ip_hash, _session_id, _estimated_cost_usd);
+
+  RETURN QUERY SELECT true, NULL::TEXT, NULL::INTEGER;
+END;
+$$;
+
+-- Only the edge function may consume quota
+REVOKE EXECUTE ON FUNCTION public.consume_analysis_quota(TEXT, TEXT, INTEGER, INTEGER, INTEGER, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
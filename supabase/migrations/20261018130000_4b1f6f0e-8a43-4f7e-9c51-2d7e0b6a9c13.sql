@@ -0,0 +1,17 @@
+-- Attribute usage events to the signed-in clinician, when there is one.
+-- Anonymous usage (clinician-only mode off) keeps a NULL user_id.
+ALTER TABLE public.orthodontic_usage_logs
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Create index for per-user usage queries
+CREATE INDEX idx_orthodontic_logs_user_id ON public.orthodontic_usage_logs(user_id);
+
+-- Browsers may only attribute events to themselves; the edge function writes
+-- with the service role and is not subject to this policy
+DROP POLICY "Allow anyone to insert usage logs" ON public.orthodontic_usage_logs;
+
+CREATE POLICY "Allow anyone to insert their own usage logs"
+ON public.orthodontic_usage_logs
+FOR INSERT
+TO public
+WITH CHECK (user_id IS NULL OR user_id = auth.uid());
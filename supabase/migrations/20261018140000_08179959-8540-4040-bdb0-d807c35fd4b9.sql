@@ -0,0 +1,138 @@
+-- Versioned prompts for analyze-orthodontic-image, so wording changes don't need a
+-- redeploy and every report can be traced back to the prompt that produced it.
+-- Versions are never edited in place: a change is saved as the next version.
+CREATE TABLE public.prompt_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  language TEXT NOT NULL DEFAULT 'en',
+  version INTEGER NOT NULL,
+  system_prompt TEXT NOT NULL,
+  -- May use the {{imageCount}} and {{imageList}} placeholders
+  user_prompt_template TEXT NOT NULL,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  UNIQUE (language, version)
+);
+
+-- At most one active version per language
+CREATE UNIQUE INDEX idx_prompt_templates_active_language
+  ON public.prompt_templates(language)
+  WHERE is_active;
+
+-- Enable Row Level Security
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Admins manage prompts; the edge function reads them with the service role
+CREATE POLICY "Admins can view prompt templates"
+  ON public.prompt_templates
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create prompt templates"
+  ON public.prompt_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Switches the active version of a language in one step
+CREATE OR REPLACE FUNCTION public.activate_prompt_template(_template_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _language TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can activate prompt templates';
+  END IF;
+
+  SELECT language INTO _language FROM public.prompt_templates WHERE id = _template_id;
+  IF _language IS NULL THEN
+    RAISE EXCEPTION 'Prompt template % does not exist', _template_id;
+  END IF;
+
+  UPDATE public.prompt_templates SET is_active = false WHERE language = _language AND is_active;
+  UPDATE public.prompt_templates SET is_active = true WHERE id = _template_id;
+END;
+$$;
+
+-- Version 1 is the prompt that was previously built into the edge function
+INSERT INTO public.prompt_templates (language, version, system_prompt, user_prompt_template, notes, is_active)
+VALUES (
+  'en',
+  1,
+  $prompt$You are a world-class orthodontist with advanced expertise in interpreting panoramic radiographs, lateral cephalograms, intraoral photographs, occlusal views, and extraoral facial photos. You will receive between 1 and 8 images.
+
+Your job is to generate a high-quality orthodontic evaluation report that an orthodontist can review in under one minute but still reflects expert-level detail.
+
+Respond with a single JSON object and nothing else. Every field is required. Fill it in as follows:
+
+radiographicFindings (list of strings)
+Panoramic + cephalometric observations.
+• One finding per item, one line each
+• If visibility is unclear: "Not clearly visible."
+
+intraoralFindings (object)
+One clear sentence for each of: midlines, overjet, openBite, canineMolarRelationship, archForm, spacingCrowding, attrition.
+Use "Not clearly visible." when an item can't be assessed from the images.
+
+biteObservations (list of strings)
+Short items describing visible:
+• Functional shifts
+• Crossbite tendencies
+• Occlusal cant
+• Symmetry
+• Posterior support
+• Anything not clearly visible should be noted as such.
+
+problemList (list of strings)
+Concise summary of the main orthodontic concerns (5–10 items max).
+No diagnoses — only visible issues.
+
+treatmentObjectives (list of strings)
+High-level orthodontic goals (1–2 lines per item).
+Examples:
+• "Improve midline alignment."
+• "Establish functional anterior guidance."
+• "Reduce increased overjet."
+
+treatmentConsiderations (list of strings)
+General, non-prescriptive orthodontic options.
+NO specific appliances, NO medical directives.
+Examples:
+• "Comprehensive orthodontic treatment may be considered to address alignment and bite."
+• "Restorative planning may be needed for missing teeth."
+• "Third molar management may be discussed."
+
+limitations (string)
+"This assessment is based solely on the images provided. A full clinical exam, cephalometric measurements, periodontal evaluation, and functional assessment are needed for definitive treatment planning."
+
+patientSummary (list of strings)
+A simple, reassuring summary for patients in 4–6 items.
+Tone: warm, clear, non-technical.
+No treatment instructions.
+Explain only:
+• What is visible
+• Why it matters
+• Typical orthodontic goals
+• That next steps are determined by their orthodontist
+
+GLOBAL STYLE RULES
+• Plain text only inside the JSON strings — no markdown or HTML
+• No long paragraphs
+• No hedging language ("maybe," "possibly")
+• No invented findings
+• No diagnosis
+• No definitive treatment plans
+• Confident, clinical, objective tone$prompt$,
+  $prompt$Here are {{imageCount}} orthodontic images for evaluation. The clinician has identified them as:
+{{imageList}}
+
+Use these view types when interpreting each image. Please analyze all images together and return the full structured report as JSON, following the field rules in the system prompt.$prompt$,
+  'Initial version, moved from the edge function',
+  true
+);
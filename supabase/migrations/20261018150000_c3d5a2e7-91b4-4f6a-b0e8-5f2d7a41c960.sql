@@ -0,0 +1,60 @@
+-- A/B experiments between prompt versions and/or models. Each analysis in the
+-- experiment's language is assigned an arm, and every usage log row it produces
+-- is stamped with the experiment and arm so outcomes can be compared.
+CREATE TABLE public.prompt_experiments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  language TEXT NOT NULL DEFAULT 'en',
+  -- Each arm is pinned to a prompt version, so activating another version mid-experiment
+  -- doesn't change what it runs. A NULL model runs the configured default.
+  arm_a_template_id UUID NOT NULL REFERENCES public.prompt_templates(id) ON DELETE RESTRICT,
+  arm_a_model TEXT,
+  arm_b_template_id UUID NOT NULL REFERENCES public.prompt_templates(id) ON DELETE RESTRICT,
+  arm_b_model TEXT,
+  -- Share of traffic sent to arm B; the rest goes to arm A
+  arm_b_percent INTEGER NOT NULL DEFAULT 50 CHECK (arm_b_percent BETWEEN 0 AND 100),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  CHECK (
+    arm_a_template_id <> arm_b_template_id
+    OR arm_a_model IS DISTINCT FROM arm_b_model
+  )
+);
+
+-- At most one running experiment per language
+CREATE UNIQUE INDEX idx_prompt_experiments_active_language
+  ON public.prompt_experiments(language)
+  WHERE is_active;
+
+-- Enable Row Level Security
+ALTER TABLE public.prompt_experiments ENABLE ROW LEVEL SECURITY;
+
+-- Admins manage experiments; the edge function reads them with the service role
+CREATE POLICY "Admins can view prompt experiments"
+  ON public.prompt_experiments
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create prompt experiments"
+  ON public.prompt_experiments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can end prompt experiments"
+  ON public.prompt_experiments
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- The arm each usage event belongs to; NULL outside an experiment
+ALTER TABLE public.orthodontic_usage_logs
+  ADD COLUMN experiment_id UUID REFERENCES public.prompt_experiments(id) ON DELETE SET NULL,
+  ADD COLUMN experiment_arm TEXT CHECK (experiment_arm IN ('A', 'B'));
+
+-- Create index for per-experiment comparisons
+CREATE INDEX idx_orthodontic_logs_experiment ON public.orthodontic_usage_logs(experiment_id, experiment_arm);
@@ -0,0 +1,4 @@
+-- Accounts allowed to run analyses in clinician-only mode. Anyone can sign up,
+-- so a signed-in user alone is not enough; admins grant this role through
+-- user_roles. Admins can always run analyses.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'clinician';
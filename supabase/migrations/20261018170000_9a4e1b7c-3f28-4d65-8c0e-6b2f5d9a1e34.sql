@@ -0,0 +1,76 @@
+-- Experiment arms and clinician ratings feed the prompt comparison, so browsers
+-- can no longer write them directly: arms are stamped by the edge function
+-- (service role), and ratings go through record_report_rating below.
+DROP POLICY "Allow anyone to insert their own usage logs" ON public.orthodontic_usage_logs;
+
+CREATE POLICY "Allow anyone to insert their own usage logs"
+ON public.orthodontic_usage_logs
+FOR INSERT
+TO public
+WITH CHECK (
+  (user_id IS NULL OR user_id = auth.uid())
+  AND experiment_id IS NULL
+  AND experiment_arm IS NULL
+  AND event_type <> 'report_rating'
+  AND NOT COALESCE(metadata ? 'analysis_id', false)
+);
+
+-- The edge function records an unguessable analysis_id with each successful
+-- analysis and returns it with the report; it is what a rating refers to, so
+-- only the service role can write it (see the policy above)
+CREATE INDEX idx_orthodontic_logs_analysis_id
+  ON public.orthodontic_usage_logs((metadata->>'analysis_id'))
+  WHERE event_type = 'analysis_success';
+
+-- One rating per analysis
+CREATE UNIQUE INDEX idx_orthodontic_logs_rating_analysis_id
+  ON public.orthodontic_usage_logs((metadata->>'analysis_id'))
+  WHERE event_type = 'report_rating';
+
+-- Records a clinician's 1-5 rating of a report. The experiment arm, session and
+-- user are copied from the server-written analysis row rather than taken from
+-- the caller, and a later rating of the same analysis is ignored.
+CREATE OR REPLACE FUNCTION public.record_report_rating(_analysis_id UUID, _rating INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _analysis public.orthodontic_usage_logs%ROWTYPE;
+BEGIN
+  IF _rating IS NULL OR _rating NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'Rating must be from 1 to 5';
+  END IF;
+
+  SELECT * INTO _analysis
+  FROM public.orthodontic_usage_logs
+  WHERE event_type = 'analysis_success'
+    AND metadata->>'analysis_id' = _analysis_id::TEXT;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Analysis % does not exist', _analysis_id;
+  END IF;
+
+  -- A signed-in clinician's analysis can only be rated by that clinician
+  IF _analysis.user_id IS NOT NULL AND _analysis.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the clinician who ran an analysis can rate it';
+  END IF;
+
+  INSERT INTO public.orthodontic_usage_logs (event_type, session_id, user_id, experiment_id, experiment_arm, metadata)
+  VALUES (
+    'report_rating',
+    _analysis.session_id,
+    _analysis.user_id,
+    _analysis.experiment_id,
+    _analysis.experiment_arm,
+    jsonb_build_object(
+      'analysis_id', _analysis_id,
+      'rating', _rating,
+      'prompt_version', _analysis.metadata->'prompt_version',
+      'prompt_language', _analysis.metadata->'prompt_language'
+    )
+  )
+  ON CONFLICT ((metadata->>'analysis_id')) WHERE event_type = 'report_rating' DO NOTHING;
+END;
+$$;